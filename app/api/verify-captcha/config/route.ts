@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { publicConfig } from '@/lib/config';
+import { publicConfigSchema } from '@/lib/public-config';
+
+// Read from the runtime environment on each deployment, never prerendered at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * API Route handler for GET requests to /api/verify-captcha/config.
+ * Serves the public configuration (CAPTCHA provider, site keys, World ID app and action IDs,
+ * primary verifier) so one build can run with different settings per environment.
+ * Fetched by `WidCaptchaProvider` when no `config` prop is passed.
+ */
+export async function GET() {
+    // Parsing strips anything that is not part of the public schema
+    return NextResponse.json(publicConfigSchema.parse(publicConfig), {
+        // Short-lived so rotated site keys reach clients within a minute
+        headers: { 'Cache-Control': 'public, max-age=60' },
+    });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hasMetricsBearer } from '@/lib/metrics-auth';
+import { getCircuitSnapshots } from '@/lib/upstream';
+import { getVerifiers, getVerifiersByHealth } from '@/lib/verifiers';
+
+// Always report live breaker state, never a cached response
+export const dynamic = 'force-dynamic';
+
+/**
+ * API Route handler for GET requests to /api/verify-captcha/health.
+ * Returns the circuit breaker state of each upstream verification provider for ops dashboards,
+ * and the verifier currently treated as primary so the client can promote the healthy option.
+ * Providers appear in `providers` once they have been called at least once. Failure times and the
+ * last upstream error are included only for requests bearing METRICS_BEARER_TOKEN.
+ */
+export async function GET(request: NextRequest) {
+    const snapshots = getCircuitSnapshots();
+    const providers = hasMetricsBearer(request)
+        ? snapshots
+        : snapshots.map(({ provider, state, consecutiveFailures }) => ({ provider, state, consecutiveFailures }));
+    const healthy = snapshots.every((provider) => provider.state !== 'open');
+    const configuredPrimary = getVerifiers()[0];
+    const primary = getVerifiersByHealth()[0];
+
+    return NextResponse.json({
+        healthy,
+        primary: primary ? { name: primary.name, method: primary.method } : null,
+        configured_primary: configuredPrimary ? { name: configuredPrimary.name, method: configuredPrimary.method } : null,
+        verifiers: getVerifiers().map((verifier) => ({
+            name: verifier.name,
+            method: verifier.method,
+            available: !verifier.isAvailable || verifier.isAvailable(),
+        })),
+        providers,
+    });
+}
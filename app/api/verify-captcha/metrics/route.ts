@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { serverConfig } from '@/lib/config';
+import { renderMetrics } from '@/lib/metrics';
+import { hasMetricsBearer } from '@/lib/metrics-auth';
+
+// Optional: Bearer token required to scrape metrics. The endpoint is public when unset.
+const METRICS_BEARER_TOKEN = serverConfig.METRICS_BEARER_TOKEN;
+
+// Always report live counters, never a cached response
+export const dynamic = 'force-dynamic';
+
+/**
+ * API Route handler for GET requests to /api/verify-captcha/metrics.
+ * Serves verification counters, fallback usage, rate-limit rejections and upstream
+ * latency histograms in Prometheus text format. Protected when METRICS_BEARER_TOKEN is set.
+ */
+export async function GET(request: NextRequest) {
+    if (METRICS_BEARER_TOKEN && !hasMetricsBearer(request)) {
+        return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+    }
+    return new NextResponse(renderMetrics(), {
+        headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+    });
+}
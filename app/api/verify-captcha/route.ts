@@ -1,339 +1,477 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getVerifiers, getVerifiersByHealth, CAPTCHA_PROVIDER, PRIMARY_VERIFIER } from '@/lib/verifiers';
+import type { VerifierContext, VerifierResult } from '@/lib/verifiers';
+import { createProgressToken, createSessionToken, getHumanSession, getVerificationProgress, isSessionConfigured, setProgressCookie, setSessionCookie, SESSION_TOKEN_IN_BODY } from '@/lib/session';
+import type { HumanSessionClaims, VerificationProgressClaims } from '@/lib/session';
+import { getAssuranceLevel, maxAssuranceLevel, meetsAssuranceLevel } from '@/lib/assurance';
+import type { AssuranceLevel } from '@/lib/assurance';
+import { captchaTokenCache } from '@/lib/token-cache';
+import type { CachedOutcome } from '@/lib/token-cache';
+import { checkRateLimit, getClientIp, recordVerificationOutcome } from '@/lib/rate-limit';
+import { logger, withRequestId } from '@/lib/logger';
+import { serverConfig } from '@/lib/config';
+import { withSpan } from '@/lib/tracing';
+import { VerificationErrorCode } from '@/lib/verification-errors';
+import { VERIFICATION_API_VERSION, verificationApiResponseSchema, verificationRequestSchema } from '@/lib/verification-schema';
+import type { VerificationFailureResponse, VerificationApiResponse, VerificationRequest } from '@/lib/verification-schema';
+import type { TraceSpan } from '@/lib/tracing';
+import { hashForAudit, isAuditEnabled, recordAudit } from '@/lib/audit-log';
+import type { AuditOutcome } from '@/lib/audit-log';
+import { evaluatePolicy, getPolicyRule, isPolicyAction } from '@/lib/verification-policy';
+import type { PolicyRule } from '@/lib/verification-policy';
+import { fallbackUsed, rateLimitRejections, verificationAttempts, verificationFailures, verificationSuccesses } from '@/lib/metrics';
+
+// Verifiers (World ID, reCAPTCHA / hCaptcha, and any in-house plugins) and their
+// configuration live in `lib/verifiers`. Add new methods to `appVerifiers` in `verifiers.ts`.
+
+// --- Responses --- //
 
-// --- Configuration --- //
-// **Server-Side Environment Variables**
-
-// Your World ID Application ID (should match the one used in the frontend IDKitWidget).
-const WLD_APP_ID = process.env.NEXT_PUBLIC_WLD_APP_ID;
-// Your World ID Action ID (should match the one used in the frontend IDKitWidget).
-const WLD_ACTION_ID = process.env.NEXT_PUBLIC_WLD_ACTION_ID;
-
-// --- CAPTCHA Configuration ---
-// Select the CAPTCHA provider ('recaptcha' or 'hcaptcha')
-const CAPTCHA_PROVIDER = (process.env.CAPTCHA_PROVIDER || 'recaptcha') as 'recaptcha' | 'hcaptcha';
-// Google reCAPTCHA v3 Secret Key (Keep this secret!)
-const RECAPTCHA_SECRET_KEY = process.env.RECAPTCHA_SECRET_KEY;
-// hCaptcha Secret Key (Keep this secret!)
-const HCAPTCHA_SECRET_KEY = process.env.HCAPTCHA_SECRET_KEY;
-// Client-side keys (used here mainly for existence checks)
-const NEXT_PUBLIC_RECAPTCHA_SITE_KEY = process.env.NEXT_PUBLIC_RECAPTCHA_SITE_KEY;
-const NEXT_PUBLIC_HCAPTCHA_SITE_KEY = process.env.NEXT_PUBLIC_HCAPTCHA_SITE_KEY;
-
-
-// Optional: Determines the verification order ('worldid' or 'captcha'). Defaults to 'worldid'.
-// Renamed from VERIFICATION_PRIORITY for clarity, as the second option is now configurable.
-const PRIMARY_VERIFIER = (process.env.PRIMARY_VERIFIER || 'worldid') as 'worldid' | 'captcha';
-
-// --- Initial Checks --- //
-// Log errors during server startup if essential configurations are missing.
-if (!WLD_APP_ID) {
-    console.error('Server Error: WLD_APP_ID environment variable is not set.');
-}
-if (!WLD_ACTION_ID) {
-    console.error('Server Error: WLD_ACTION_ID environment variable is not set.');
+/**
+ * Sends a response body after validating it against the shared schema (`lib/verification-schema`),
+ * so custom verifiers cannot leak fields the client does not understand. Throws on mismatch.
+ */
+function apiResponse(body: VerificationApiResponse, init?: ResponseInit) {
+    return NextResponse.json(verificationApiResponseSchema.parse(body), init);
 }
-// Check keys based on selected CAPTCHA provider
-if (CAPTCHA_PROVIDER === 'recaptcha') {
-    if (!RECAPTCHA_SECRET_KEY) {
-        console.error('Server Error: CAPTCHA_PROVIDER is "recaptcha", but RECAPTCHA_SECRET_KEY environment variable is not set.');
-    }
-    if (!NEXT_PUBLIC_RECAPTCHA_SITE_KEY) {
-        // Check client key as well, helps catch config issues early
-        console.warn('Server Warning: CAPTCHA_PROVIDER is "recaptcha", but NEXT_PUBLIC_RECAPTCHA_SITE_KEY environment variable is not set. Frontend widget might fail.');
-    }
-} else if (CAPTCHA_PROVIDER === 'hcaptcha') {
-    if (!HCAPTCHA_SECRET_KEY) {
-        console.error('Server Error: CAPTCHA_PROVIDER is "hcaptcha", but HCAPTCHA_SECRET_KEY environment variable is not set.');
-    }
-    if (!NEXT_PUBLIC_HCAPTCHA_SITE_KEY) {
-        console.warn('Server Warning: CAPTCHA_PROVIDER is "hcaptcha", but NEXT_PUBLIC_HCAPTCHA_SITE_KEY environment variable is not set. Frontend widget might fail.');
-    }
-} else {
-    console.error(`Server Error: Invalid CAPTCHA_PROVIDER "${CAPTCHA_PROVIDER}". Must be "recaptcha" or "hcaptcha".`);
+
+// Failure body for requests rejected before any verifier ran.
+function rejection(error: string, code: VerificationErrorCode, extra: Partial<VerificationFailureResponse> = {}): VerificationFailureResponse {
+    return { version: VERIFICATION_API_VERSION, success: false, error, code, attempted_methods: [], ...extra };
 }
 
+// --- Request Parsing --- //
 
-// --- World ID Verification --- //
-const WORLD_ID_VERIFY_URL = `https://developer.worldcoin.org/api/v2/verify/${WLD_APP_ID}`;
+// Maximum request body size in bytes. A World ID proof is ~1.3 KB, CAPTCHA tokens at most 8 KB. Defaults to 16 KB.
+const VERIFY_MAX_BODY_BYTES = serverConfig.VERIFY_MAX_BODY_BYTES;
 
-/**
- * Expected shape of the response object from the World ID Kit frontend component (`IDKitWidget`).
- */
-interface IDKitResponse {
-    merkle_root: string;
-    nullifier_hash: string;
-    proof: string;
-    credential_type: string;
-    signal?: string; // Optional: Include signal if used in the frontend widget
+// Validated body: the shared request fields, plus fields declared by custom verifiers (`Verifier.bodySchema`).
+type RequestBody = VerificationRequest & Record<string, unknown>;
+
+type ParsedBody =
+    | { ok: true; data: RequestBody }
+    | { ok: false; status: number; body: VerificationFailureResponse };
+
+// Reads the body as text, giving up (returning null) as soon as it exceeds `limit` bytes.
+async function readBodyWithLimit(request: NextRequest, limit: number): Promise<string | null> {
+    if (Number(request.headers.get('content-length')) > limit) {
+        return null;
+    }
+    const reader = request.body?.getReader();
+    if (!reader) {
+        return '';
+    }
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        size += value.byteLength;
+        if (size > limit) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+    return Buffer.concat(chunks).toString('utf8');
 }
 
 /**
- * Verifies the World ID proof using the World Developer Portal API.
- * @param idkitResponse - The response object received from the frontend IDKitWidget.
- * @returns [boolean, string] - A tuple indicating verification success and a status message.
+ * Reads, size-limits and validates the request body against `verificationRequestSchema`,
+ * extended with the body fields declared by registered verifiers.
  */
-async function verifyWorldID(idkitResponse: IDKitResponse): Promise<[boolean, string]> {
-    if (!idkitResponse) {
-        return [false, 'World ID proof (idkit_response) not provided in request body.'];
-    }
-    // Check server configuration again, in case env vars were loaded after initial check
-    if (!WLD_APP_ID || !WLD_ACTION_ID) {
-        return [false, 'World ID environment variables (NEXT_PUBLIC_WLD_APP_ID, NEXT_PUBLIC_WLD_ACTION_ID) not configured on the server.'];
+async function parseRequestBody(request: NextRequest, span: TraceSpan): Promise<ParsedBody> {
+    const text = await readBodyWithLimit(request, VERIFY_MAX_BODY_BYTES);
+    if (text === null) {
+        span.setAttribute('request.parse_error', VerificationErrorCode.PayloadTooLarge);
+        return { ok: false, status: 413, body: rejection(`Request body exceeds ${VERIFY_MAX_BODY_BYTES} bytes.`, VerificationErrorCode.PayloadTooLarge) };
     }
 
-    // Prepare the payload for the World /verify API
-    // This includes the proof details received from the frontend, plus the server-side Action ID.
-    // The signal received from the frontend should also be included if provided.
-    const payloadToSend = {
-        ...idkitResponse, // Spread the received proof fields
-        action: WLD_ACTION_ID, // Use the server-side Action ID for verification
-        signal: idkitResponse.signal ?? '', // Use signal from frontend if present, otherwise empty string
-    };
-
+    let json: unknown;
     try {
-        const verifyRes = await fetch(WORLD_ID_VERIFY_URL, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(payloadToSend),
-        });
+        json = JSON.parse(text);
+    } catch {
+        // Not the parse error itself: its message quotes part of the body (e.g. a proof or token)
+        logger.warn('Failed to parse request JSON.', { reason: VerificationErrorCode.InvalidJson });
+        span.setAttribute('request.parse_error', VerificationErrorCode.InvalidJson);
+        return { ok: false, status: 400, body: rejection('Invalid JSON payload', VerificationErrorCode.InvalidJson) };
+    }
 
-        const responseBody = await verifyRes.json(); // Always parse JSON to get details
+    const customFields = Object.assign({}, ...getVerifiers().map((verifier) => verifier.bodySchema ?? {}));
+    const result = verificationRequestSchema.extend(customFields).safeParse(json);
+    if (!result.success) {
+        const fieldErrors = result.error.issues.map((issue) => ({ path: issue.path.join('.') || '(body)', message: issue.message }));
+        logger.warn('Rejected invalid verification request.', { fieldErrors });
+        span.setAttribute('request.parse_error', VerificationErrorCode.InvalidRequest);
+        return { ok: false, status: 400, body: rejection('Invalid verification request.', VerificationErrorCode.InvalidRequest, { field_errors: fieldErrors }) };
+    }
 
-        if (verifyRes.ok) {
-            // Status code 200 indicates successful verification
-            console.log("World ID Verification Success:", responseBody);
-            return [true, 'World ID verification successful.'];
-        } else {
-            // Verification failed (e.g., 400 Bad Request)
-            const detail = responseBody?.detail || `Verification failed with status ${verifyRes.status}`;
-            console.warn(`World ID verification failed (${verifyRes.status}): ${detail}`, responseBody);
-            return [false, `World ID Verification Failed: ${detail}`];
-        }
-    } catch (error: unknown) {
-        console.error('Error connecting to World ID verify API:', error);
-        // Explicitly handle potential errors during fetch or JSON parsing
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return [false, `API Connection Error: ${errorMessage}`];
+    // Only providers with a registered verifier (i.e. a configured secret) can be requested
+    const captchaProvider = result.data.captcha_provider;
+    if (captchaProvider && !getVerifiers().some((verifier) => verifier.method === captchaProvider)) {
+        logger.warn('Rejected verification request for a disabled CAPTCHA provider.', { captchaProvider });
+        span.setAttribute('request.parse_error', VerificationErrorCode.InvalidRequest);
+        return {
+            ok: false,
+            status: 400,
+            body: rejection('Invalid verification request.', VerificationErrorCode.InvalidRequest, {
+                field_errors: [{ path: 'captcha_provider', message: `CAPTCHA provider "${captchaProvider}" is not enabled on this server` }],
+            }),
+        };
     }
-}
 
-// --- CAPTCHA Verification --- //
+    // Only actions listed in the verification policy can be requested (sessions record the action)
+    const action = result.data.action;
+    if (action && !isPolicyAction(action)) {
+        logger.warn('Rejected verification request for an unknown policy action.', { action });
+        span.setAttribute('request.parse_error', VerificationErrorCode.InvalidRequest);
+        return {
+            ok: false,
+            status: 400,
+            body: rejection('Invalid verification request.', VerificationErrorCode.InvalidRequest, {
+                field_errors: [{ path: 'action', message: `Action "${action}" is not defined in the verification policy` }],
+            }),
+        };
+    }
 
-// Generic result type for CAPTCHA verification functions
-type CaptchaVerifyResult = [boolean, string, Record<string, any>?]; // [success, message, optionalDetails]
+    span.setAttribute('request.has_idkit_response', !!result.data.idkit_response);
+    span.setAttribute('request.has_captcha_token', !!result.data.captcha_token);
+    return { ok: true, data: result.data };
+}
 
-// --- reCAPTCHA Verification --- //
-const RECAPTCHA_VERIFY_URL = 'https://www.google.com/recaptcha/api/siteverify';
+// --- Session Issuance --- //
 
 /**
- * Verifies the reCAPTCHA token using the Google reCAPTCHA API.
- * @param token - The reCAPTCHA token received from the frontend.
- * @returns CaptchaVerifyResult - A tuple indicating verification success, a status message, and details.
+ * Signs the human session of a successful outcome when SESSION_SECRET is configured, or the progress
+ * token of a policy step. Runs once per outcome, before it is cached, so idempotent retries get the
+ * same token back instead of a new one. Other routes can validate the session with `getHumanSession`.
+ * A stronger verification replaces (steps up) the caller's current session; a weaker one keeps it.
  */
-async function verifyRecaptcha(token: string): Promise<CaptchaVerifyResult> {
-    if (!token) {
-        return [false, 'reCAPTCHA token not provided in request body.'];
+async function issueSession(outcome: CachedOutcome, currentSession: HumanSessionClaims | null): Promise<CachedOutcome> {
+    if (outcome.progress) {
+        return { ...outcome, issuedProgress: await createProgressToken(outcome.progress) };
     }
-    if (!RECAPTCHA_SECRET_KEY) {
-        return [false, 'reCAPTCHA Secret Key (RECAPTCHA_SECRET_KEY) not configured on the server.'];
+    if (!outcome.session || !outcome.body.success || !isSessionConfigured()) {
+        return outcome;
     }
-
-    // Prepare the payload for the Google siteverify API
-    const params = new URLSearchParams({
-        secret: RECAPTCHA_SECRET_KEY, // The server-side secret key
-        response: token, // The token received from the frontend
-    });
-
-    try {
-        const response = await fetch(RECAPTCHA_VERIFY_URL, {
-            method: 'POST',
-            body: params,
-        });
-
-        const result = await response.json();
-
-        if (result.success) {
-            // reCAPTCHA verification successful
-            console.log("reCAPTCHA Verification Success:", result);
-            return [true, 'reCAPTCHA verification successful.', result];
-        } else {
-            // reCAPTCHA verification failed
-            const errorCodes = result['error-codes'] || ['unknown'];
-            console.warn(`reCAPTCHA verification failed: ${errorCodes.join(', ')}`, result);
-            return [false, `reCAPTCHA Verification Failed: ${errorCodes.join(', ')}`, result];
-        }
-    } catch (error: unknown) {
-        console.error('Error connecting to reCAPTCHA API:', error);
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return [false, `API Connection Error: ${errorMessage}`];
+    if (currentSession && currentSession.action === outcome.session.action && !meetsAssuranceLevel(outcome.session.assurance, currentSession.assurance)) {
+        // E.g. a CAPTCHA after World ID: the World ID session stays in place. A verification for
+        // another policy action always replaces the session, so it records that action.
+        return {
+            ...outcome,
+            body: { ...outcome.body, assurance_level: currentSession.assurance, session_expires_at: currentSession.exp },
+        };
     }
+    const issuedSession = await createSessionToken(outcome.session);
+    return {
+        ...outcome,
+        body: {
+            ...outcome.body,
+            session_expires_at: issuedSession.claims.exp,
+            ...(SESSION_TOKEN_IN_BODY ? { session_token: issuedSession.token } : {}),
+        },
+        issuedSession,
+    };
 }
 
-// --- hCaptcha Verification --- //
-const HCAPTCHA_VERIFY_URL = 'https://api.hcaptcha.com/siteverify';
-
 /**
- * Verifies the hCaptcha token using the hCaptcha API.
- * @param token - The hCaptcha token received from the frontend.
- * @returns CaptchaVerifyResult - A tuple indicating verification success, a status message, and details.
+ * Builds the JSON response for an outcome, attaching its session as an HttpOnly cookie (see `issueSession`).
+ * Under a verification policy, the steps completed so far are kept in a progress cookie until the rule is met.
  */
-async function verifyHCaptcha(token: string): Promise<CaptchaVerifyResult> {
-    if (!token) {
-        return [false, 'hCaptcha token not provided in request body.'];
+function respond(outcome: CachedOutcome): NextResponse {
+    const response = apiResponse(outcome.body, { status: outcome.status });
+    if (outcome.issuedProgress !== undefined) {
+        setProgressCookie(response, outcome.issuedProgress);
+    }
+    if (outcome.issuedSession) {
+        setSessionCookie(response, outcome.issuedSession.token, outcome.issuedSession.claims);
     }
-    if (!HCAPTCHA_SECRET_KEY) {
-        return [false, 'hCaptcha Secret Key (HCAPTCHA_SECRET_KEY) not configured on the server.'];
+    if (outcome.body.success && outcome.body.requirements) {
+        // The policy is met; the steps are now part of the session
+        setProgressCookie(response, null);
     }
+    return response;
+}
 
-    // Prepare the payload for the hCaptcha siteverify API (application/x-www-form-urlencoded)
-    const params = new URLSearchParams({
-        secret: HCAPTCHA_SECRET_KEY,
-        response: token,
-        // remoteip: // Optional: Pass user's IP if available and desired
-        // sitekey: // Optional: Pass NEXT_PUBLIC_HCAPTCHA_SITE_KEY if desired for extra check
-    });
+// --- Verification Pipeline --- //
 
-    try {
-        const response = await fetch(HCAPTCHA_VERIFY_URL, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/x-www-form-urlencoded',
-            },
-            body: params.toString(), // Send as form-urlencoded string
+// Policy rule of the request and the steps completed in earlier requests, if a policy is configured.
+interface PolicyContext {
+    rule: PolicyRule;
+    action: string | null;
+    progress: VerificationProgressClaims | null;
+}
+
+/**
+ * Tries each registered verifier in registry order (primary first, then fallbacks).
+ * Without a verification policy, returns on the first success. With one, keeps going until the
+ * request's rule is met, counting steps completed in earlier requests; if steps remain, the
+ * outcome lists them and carries the progress so far. Degraded providers are moved behind healthy ones.
+ */
+async function runVerifiers(data: RequestBody, context: VerifierContext, policy: PolicyContext | null): Promise<CachedOutcome> {
+    const verifiers = getVerifiersByHealth();
+
+    const attemptedMethods: string[] = [];
+    const verifiedMethods = [...(policy?.progress?.methods ?? [])];
+    let level = policy?.progress?.level ?? null;
+    let lastSuccess: { index: number; method: string; result: VerifierResult } | null = null;
+    let lastFailure: { method: string; result: VerifierResult } | null = null;
+    for (const [index, verifier] of verifiers.entries()) {
+        const role = index === 0 ? 'primary' : 'fallback';
+        const payload = verifier.extractPayload(data);
+        if (!payload) {
+            logger.debug(`Skipping ${role} verification (${verifier.name}): No payload provided.`, { verifier: verifier.name, role });
+            continue;
+        }
+        attemptedMethods.push(verifier.method);
+
+        if (verifier.isAvailable && !verifier.isAvailable()) {
+            logger.warn(`Skipping ${role} verification (${verifier.name}): Provider marked unhealthy.`, { verifier: verifier.name, role });
+            lastFailure = { method: verifier.method, result: { success: false, message: `${verifier.name} is temporarily unavailable.`, code: VerificationErrorCode.UpstreamUnavailable } };
+            continue;
+        }
+
+        logger.info(`Attempting ${role} verification: ${verifier.name}`, { verifier: verifier.name, role });
+        verificationAttempts.inc({ method: verifier.method });
+        const result = await withSpan(`verify-captcha.${role}`, { 'verification.method': verifier.method, 'verification.verifier': verifier.name }, async (span) => {
+            const verdict = await verifier.verify(payload, context);
+            span.setAttribute('verification.outcome', verdict.success ? 'success' : 'failure');
+            if (!verdict.success) {
+                span.setAttribute('verification.failure_reason', verdict.code ?? VerificationErrorCode.ProviderRejected);
+            }
+            return verdict;
         });
+        if (result.success) {
+            verificationSuccesses.inc({ method: verifier.method });
+            lastSuccess = { index, method: verifier.method, result };
+            verifiedMethods.push(verifier.method);
+            level = result.verificationLevel ?? level;
+            if (!policy || evaluatePolicy(policy.rule, verifiedMethods).met) {
+                break;
+            }
+            continue;
+        }
+        // Failed, log and fall through to the next verifier
+        logger.info(`${role[0].toUpperCase()}${role.slice(1)} verification (${verifier.name}) failed.`, { verifier: verifier.name, role, code: result.code, reason: result.details?.reason });
+        verificationFailures.inc({ method: verifier.method, reason: result.code ?? VerificationErrorCode.ProviderRejected });
+        lastFailure = { method: verifier.method, result };
+    }
 
-        const result = await response.json();
+    const evaluation = policy ? evaluatePolicy(policy.rule, verifiedMethods) : null;
+    const requirements = evaluation?.progress;
+    // Completed steps are kept (for the progress cookie) even if another step of this request failed
+    const progress = policy && lastSuccess ? { action: policy.action, methods: verifiedMethods, level } : undefined;
 
-        if (result.success === true) {
-            // hCaptcha verification successful
-            console.log("hCaptcha Verification Success:", result);
-            // Note: Check hostname, challenge_ts, etc. if needed from `result`
-            return [true, 'hCaptcha verification successful.', result];
-        } else {
-            // hCaptcha verification failed
-            const errorCodes = result['error-codes'] || ['unknown'];
-            console.warn(`hCaptcha verification failed: ${errorCodes.join(', ')}`, result);
-            // Consider specific error codes like 'expired-input-response', 'invalid-input-response'
-            return [false, `hCaptcha Verification Failed: ${errorCodes.join(', ')}`, result];
+    if (lastSuccess && (!evaluation || evaluation.met)) {
+        if (!policy && lastSuccess.index > 0) {
+            fallbackUsed.inc({ method: lastSuccess.method });
         }
-    } catch (error: unknown) {
-        console.error('Error connecting to hCaptcha API:', error);
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return [false, `API Connection Error: ${errorMessage}`];
+        // Strongest of the steps (a policy may combine World ID and a CAPTCHA)
+        const assurance = verifiedMethods.reduce<AssuranceLevel>((strongest, method) => maxAssuranceLevel(strongest, getAssuranceLevel(method, level)), getAssuranceLevel(lastSuccess.method, level));
+        return {
+            status: 200,
+            body: {
+                version: VERIFICATION_API_VERSION,
+                success: true,
+                message: lastSuccess.result.message,
+                method: lastSuccess.method,
+                details: lastSuccess.result.details,
+                attempted_methods: attemptedMethods,
+                requirements,
+                assurance_level: assurance,
+            },
+            // Records the action whose rule was met, so protected endpoints can require it (`requireHuman`)
+            session: { method: lastSuccess.method, level, assurance, action: policy?.action ?? null },
+        };
     }
+
+    // Handle Cases Where No Method Succeeded or No Payload Provided
+    if (lastFailure) {
+        return {
+            status: 400,
+            body: {
+                version: VERIFICATION_API_VERSION,
+                success: false,
+                error: `Verification Failed: ${lastFailure.result.message}`,
+                code: lastFailure.result.code ?? VerificationErrorCode.ProviderRejected,
+                method: lastFailure.method,
+                details: lastFailure.result.details,
+                attempted_methods: attemptedMethods,
+                requirements,
+            },
+            progress,
+        };
+    }
+    // Every step of this request succeeded, but the policy needs more
+    if (lastSuccess && requirements) {
+        logger.info('Verification policy not yet met.', { action: policy?.action, satisfied: requirements.satisfied, remaining: requirements.remaining });
+        return {
+            status: 403,
+            body: {
+                version: VERIFICATION_API_VERSION,
+                success: false,
+                error: `Further verification required: ${requirements.mode === 'all_of' ? 'all' : 'one'} of ${requirements.remaining.join(', ')}.`,
+                code: VerificationErrorCode.RequirementsUnmet,
+                method: lastSuccess.method,
+                attempted_methods: attemptedMethods,
+                requirements,
+            },
+            progress,
+        };
+    }
+    // If no verifier found a payload in the request
+    return { status: 400, body: rejection('No verification payload (idkit_response or captcha_token) provided in the request.', VerificationErrorCode.MissingPayload, { requirements }) };
+}
+
+// A completed step of a multi-step policy counts as a success for the IP lockout.
+function passedVerification(outcome: CachedOutcome): boolean {
+    return outcome.body.success || outcome.body.code === VerificationErrorCode.RequirementsUnmet;
 }
 
+// --- Audit Trail --- //
+
+// Filled in by the handler as it learns about the request; written once the response is ready.
+interface AuditFields {
+    ip: string | null;
+    nullifier: string | null;
+    method: string | null;
+    level: string | null;
+    outcome: AuditOutcome;
+    reason: string | null;
+}
+
+function auditOutcome(audit: AuditFields, outcome: CachedOutcome): void {
+    const body = outcome.body;
+    audit.outcome = body.success ? 'success' : 'failure';
+    audit.method = body.method ?? null;
+    audit.level = outcome.session?.level ?? null;
+    audit.reason = body.success ? null : body.code;
+}
 
 // --- Verification Endpoint --- //
 
+// Incoming request IDs are reused for correlation only if they look like IDs (not arbitrary log content).
+const REQUEST_ID_PATTERN = /^[\w-]{1,128}$/;
+
 /**
  * API Route handler for POST requests to /api/verify-captcha.
  * Expects a JSON body containing `idkit_response` (for World ID)
- * AND/OR `captcha_token` (for the configured CAPTCHA provider).
- * Verifies the provided proof/token based on the `PRIMARY_VERIFIER` env variable.
+ * AND/OR `captcha_token` (for `captcha_provider`, defaulting to the configured CAPTCHA provider).
+ * Each `captcha_token` is accepted only once; retries that send the same `Idempotency-Key`
+ * header receive the original outcome instead of a reuse error.
+ * Every log line written while handling the request carries its request ID (`X-Request-ID`).
+ * When tracing is enabled (`lib/tracing`), the request span continues the caller's `traceparent`.
+ * When auditing is enabled (`lib/audit-log`), every request is recorded with hashed IP and nullifier.
  */
 export async function POST(request: NextRequest) {
+    const incomingId = request.headers.get('x-request-id');
+    const requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : crypto.randomUUID();
+
+    const startedAt = Date.now();
+    const audit: AuditFields = { ip: null, nullifier: null, method: null, level: null, outcome: 'error', reason: null };
+
+    const response = await withSpan('verify-captcha.request', { 'request.id': requestId }, async (span) => {
+        const result = await withRequestId(requestId, () => handleVerification(request, audit));
+        span.setAttribute('http.response.status_code', result.status);
+        return result;
+    }, request.headers);
+    response.headers.set('X-Request-ID', requestId);
+
+    if (isAuditEnabled()) {
+        await recordAudit({
+            timestamp: startedAt,
+            requestId,
+            ipHash: hashForAudit(audit.ip),
+            nullifierHash: hashForAudit(audit.nullifier),
+            method: audit.method,
+            level: audit.level,
+            outcome: audit.outcome,
+            reason: audit.reason,
+            status: response.status,
+            latencyMs: Date.now() - startedAt,
+        });
+    }
+    return response;
+}
+
+async function handleVerification(request: NextRequest, audit: AuditFields): Promise<NextResponse> {
     try {
-        // 1. Parse Request Body
-        let data: any;
-        try {
-            data = await request.json();
-        } catch (parseError) {
-            console.error("Failed to parse request JSON:", parseError);
-            return NextResponse.json({ success: false, error: 'Invalid JSON payload' }, { status: 400 });
+        // Known before parsing, so rejected requests are audited with their IP too
+        const clientIp = getClientIp(request);
+        audit.ip = clientIp;
+
+        // 1. Parse and Validate Request Body
+        const parsed = await withSpan('verify-captcha.parse', {}, (span) => parseRequestBody(request, span));
+        if (!parsed.ok) {
+            audit.outcome = 'invalid_request';
+            audit.reason = parsed.body.code;
+            return apiResponse(parsed.body, { status: parsed.status });
         }
-
-        // Extract potential payloads
-        const idkitResponse = data.idkit_response as IDKitResponse | undefined;
-        const captchaToken = data.captcha_token as string | undefined; // Use generic captcha token
-        console.log("Received verification request:", {
-            hasIdKit: !!idkitResponse,
-            hasCaptcha: !!captchaToken,
-            captchaProvider: CAPTCHA_PROVIDER,
-            priority: PRIMARY_VERIFIER
+        const data = parsed.data;
+
+        logger.info('Received verification request.', {
+            hasIdKit: !!data.idkit_response,
+            hasCaptcha: !!data.captcha_token,
+            captchaProvider: data.captcha_provider ?? CAPTCHA_PROVIDER,
+            priority: PRIMARY_VERIFIER,
+            verifiers: getVerifiers().map((v) => v.name),
         });
 
-        // 2. Determine Verification Functions based on Config
-        const captchaVerifier = CAPTCHA_PROVIDER === 'hcaptcha' ? verifyHCaptcha : verifyRecaptcha;
-        const captchaMethodName = CAPTCHA_PROVIDER === 'hcaptcha' ? 'hCaptcha' : 'reCAPTCHA';
-        const worldIdVerifier = verifyWorldID;
-        const worldIdMethodName = 'World ID';
-
-        let primaryVerifier: (payload: any) => Promise<CaptchaVerifyResult>;
-        let fallbackVerifier: (payload: any) => Promise<CaptchaVerifyResult>;
-        let primaryPayload: IDKitResponse | string | undefined;
-        let fallbackPayload: IDKitResponse | string | undefined;
-        let primaryMethodName: string;
-        let fallbackMethodName: string;
-
-        if (PRIMARY_VERIFIER === 'captcha') {
-            primaryVerifier = captchaVerifier;
-            primaryPayload = captchaToken;
-            primaryMethodName = captchaMethodName;
-            fallbackVerifier = worldIdVerifier;
-            fallbackPayload = idkitResponse;
-            fallbackMethodName = worldIdMethodName;
-        } else {
-            // Default to World ID first if priority is 'worldid' or invalid
-            if (PRIMARY_VERIFIER !== 'worldid') {
-                console.warn(`Invalid PRIMARY_VERIFIER '${PRIMARY_VERIFIER}'. Defaulting to 'worldid'.`);
-            }
-            primaryVerifier = worldIdVerifier;
-            primaryPayload = idkitResponse;
-            primaryMethodName = worldIdMethodName;
-            fallbackVerifier = captchaVerifier;
-            fallbackPayload = captchaToken;
-            fallbackMethodName = captchaMethodName;
+        // 2. Throttle by client IP and World ID nullifier before calling any upstream API
+        audit.nullifier = data.idkit_response?.nullifier_hash ?? null;
+        const rateLimit = checkRateLimit(clientIp, data.idkit_response?.nullifier_hash);
+        if (!rateLimit.allowed) {
+            const retryAfterSeconds = Math.max(1, Math.ceil(rateLimit.retryAfterMs / 1000));
+            logger.warn('Rate limited verification request.', { reason: rateLimit.reason, retryAfterSeconds });
+            rateLimitRejections.inc({ reason: rateLimit.reason });
+            audit.outcome = 'rate_limited';
+            audit.reason = rateLimit.reason;
+            return apiResponse(
+                rejection(`Too many verification attempts. Try again in ${retryAfterSeconds} seconds.`, VerificationErrorCode.RateLimited, { retry_after: retryAfterSeconds }),
+                { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } },
+            );
         }
 
-        // 3. Attempt Primary Verification
-        if (primaryPayload) {
-            console.log(`Attempting primary verification: ${primaryMethodName}`);
-            const [primarySuccess, primaryMessage, primaryDetails] = await primaryVerifier(primaryPayload);
-            if (primarySuccess) {
-                // Primary verification succeeded
-                const responseMethod = primaryMethodName === worldIdMethodName ? 'world_id' : CAPTCHA_PROVIDER;
-                return NextResponse.json({ success: true, message: primaryMessage, method: responseMethod, details: primaryDetails });
-            }
-            // Primary verification failed, log and potentially fall through to fallback
-            console.info(`Primary verification (${primaryMethodName}) failed: ${primaryMessage}`);
-        } else {
-            console.log(`Skipping primary verification (${primaryMethodName}): No payload provided.`);
-        }
+        // The current session, if any, is stepped up by a stronger verification
+        const currentSession = await getHumanSession(request);
 
-        // 4. Attempt Fallback Verification (if primary failed or wasn't attempted)
-        if (fallbackPayload) {
-            console.log(`Attempting fallback verification: ${fallbackMethodName}`);
-            const [fallbackSuccess, fallbackMessage, fallbackDetails] = await fallbackVerifier(fallbackPayload);
-            if (fallbackSuccess) {
-                // Fallback verification succeeded
-                const responseMethod = fallbackMethodName === worldIdMethodName ? 'world_id' : CAPTCHA_PROVIDER;
-                return NextResponse.json({ success: true, message: fallbackMessage, method: responseMethod, details: fallbackDetails });
-            }
-            // Fallback also failed
-            console.warn(`Fallback verification (${fallbackMethodName}) failed: ${fallbackMessage}`);
-            const responseMethod = fallbackMethodName === worldIdMethodName ? 'world_id' : CAPTCHA_PROVIDER;
-            return NextResponse.json({ success: false, error: `Verification Failed: ${fallbackMessage}`, method: responseMethod, details: fallbackDetails }, { status: 400 });
-        } else {
-            console.log(`Skipping fallback verification (${fallbackMethodName}): No payload provided.`);
-        }
+        // 3. Look up the policy rule for the action and the steps already completed for it
+        const action = data.action ?? null;
+        const rule = getPolicyRule(action);
+        const policy = rule ? { rule, action, progress: await getVerificationProgress(request, action) } : null;
 
-        // 5. Handle Cases Where No Method Succeeded or No Payload Provided
-        // If primary payload was provided but failed, and no fallback payload exists
-        if (primaryPayload && !fallbackPayload) {
-            // The primary message is already logged, return a generic failure based on primary method
-            const responseMethod = primaryMethodName === worldIdMethodName ? 'world_id' : CAPTCHA_PROVIDER;
-            return NextResponse.json({ success: false, error: `Verification Failed: Primary method (${primaryMethodName}) failed.`, method: responseMethod }, { status: 400 });
+        // 4. Verify, consuming the CAPTCHA token (if any) exactly once
+        if (typeof data.captcha_token !== 'string' || !data.captcha_token) {
+            const outcome = await issueSession(await runVerifiers(data, { clientIp }, policy), currentSession);
+            recordVerificationOutcome(clientIp, passedVerification(outcome));
+            auditOutcome(audit, outcome);
+            return respond(outcome);
+        }
+        const idempotencyKey = request.headers.get('idempotency-key');
+        // The session is signed inside the cached verification, so replays return it unchanged
+        const consumed = await captchaTokenCache.consume(data.captcha_token, idempotencyKey, async () => issueSession(await runVerifiers(data, { clientIp }, policy), currentSession));
+        if (consumed.reused) {
+            logger.warn('Rejected verification request: CAPTCHA token was already used.');
+            recordVerificationOutcome(clientIp, false);
+            audit.outcome = 'token_reused';
+            audit.reason = VerificationErrorCode.TokenReused;
+            return apiResponse(rejection('Verification Failed: CAPTCHA token has already been used.', VerificationErrorCode.TokenReused), { status: 409 });
         }
-        // If neither payload was provided initially
-        return NextResponse.json({ success: false, error: 'No verification payload (idkit_response or captcha_token) provided in the request.' }, { status: 400 });
+        if (consumed.replayed) {
+            logger.info('Returning cached outcome for idempotent retry.');
+        } else {
+            recordVerificationOutcome(clientIp, passedVerification(consumed.outcome));
+        }
+        auditOutcome(audit, consumed.outcome);
+        return respond(consumed.outcome);
 
     } catch (error: unknown) {
         // Catch unexpected errors in the handler logic
-        console.error('Critical error in verification endpoint:', error);
+        logger.error('Critical error in verification endpoint.', { error });
+        audit.outcome = 'error';
+        audit.reason = VerificationErrorCode.InternalError;
         const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred.';
-        return NextResponse.json({ success: false, error: `Internal Server Error: ${errorMessage}` }, { status: 500 });
+        return apiResponse(rejection(`Internal Server Error: ${errorMessage}`, VerificationErrorCode.InternalError), { status: 500 });
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHumanSession } from '@/lib/session';
+import { VERIFICATION_API_VERSION, sessionStatusSchema } from '@/lib/verification-schema';
+
+// Depends on the caller's session, never prerendered or cached
+export const dynamic = 'force-dynamic';
+
+/**
+ * API Route handler for GET requests to /api/verify-captcha/session.
+ * Reports the caller's human session (cookie or Bearer token, see `getHumanSession`): method,
+ * assurance level, action and expiry. Fetched by `WidCaptchaProvider` on mount so a reload keeps
+ * the verification state of a still valid session.
+ */
+export async function GET(request: NextRequest) {
+    const session = await getHumanSession(request);
+
+    return NextResponse.json(sessionStatusSchema.parse({
+        version: VERIFICATION_API_VERSION,
+        verified: session !== null,
+        method: session?.method ?? null,
+        assurance_level: session?.assurance ?? 'none',
+        action: session?.action ?? null,
+        session_expires_at: session?.exp ?? null,
+    }), {
+        headers: { 'Cache-Control': 'no-store' },
+    });
+}
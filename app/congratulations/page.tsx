@@ -0,0 +1,5 @@
+import CongratulationsPage from "@/congratulations-page"
+
+export default function Congratulations() {
+  return <CongratulationsPage />
+}
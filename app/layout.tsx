@@ -1,9 +1,11 @@
 import type React from "react"
 import type { Metadata } from "next"
 import { Inter } from "next/font/google"
+import { unstable_noStore as noStore } from "next/cache"
 import "./globals.css"
 import { ThemeProvider } from "@/components/theme-provider"
 import { CaptchaProviderWrapper } from "@/components/captcha-provider-wrapper"
+import { publicConfig, configProblems } from "@/lib/config"
 
 const inter = Inter({ subsets: ["latin"] })
 
@@ -17,25 +19,16 @@ export default function RootLayout({
 }: Readonly<{
   children: React.ReactNode
 }>) {
-  // Get the client-side Site Key from environment variables
-  const recaptchaSiteKey = process.env.NEXT_PUBLIC_RECAPTCHA_SITE_KEY;
-  const hcaptchaSiteKey = process.env.NEXT_PUBLIC_HCAPTCHA_SITE_KEY;
-  const captchaProvider = (process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER || 'recaptcha') as 'recaptcha' | 'hcaptcha';
-  const worldIdAppId = process.env.NEXT_PUBLIC_WLD_APP_ID;
-  const worldIdActionId = process.env.NEXT_PUBLIC_WLD_ACTION_ID;
+  // Render per request so the configuration comes from the runtime environment, not the build
+  noStore();
 
-  // Determine which captcha key to check based on provider
-  const hasCaptchaKey = captchaProvider === 'recaptcha' ? !!recaptchaSiteKey : !!hcaptchaSiteKey;
+  // Client-side configuration problems (validated once in lib/config, which also logs them)
+  const missingVars = configProblems
+    .filter(problem => problem.severity === 'error' && problem.variable.startsWith('NEXT_PUBLIC_'))
+    .map(problem => problem.variable);
 
   // Basic error handling if required keys are missing
-  if (!hasCaptchaKey || !worldIdAppId || !worldIdActionId) {
-    const missingVars = [];
-    if (!worldIdAppId) missingVars.push("NEXT_PUBLIC_WLD_APP_ID");
-    if (!worldIdActionId) missingVars.push("NEXT_PUBLIC_WLD_ACTION_ID");
-    if (captchaProvider === 'recaptcha' && !recaptchaSiteKey) missingVars.push("NEXT_PUBLIC_RECAPTCHA_SITE_KEY");
-    if (captchaProvider === 'hcaptcha' && !hcaptchaSiteKey) missingVars.push("NEXT_PUBLIC_HCAPTCHA_SITE_KEY");
-
-    console.error(`Layout: Client-side environment variables missing: ${missingVars.join(", ")}`);
+  if (missingVars.length > 0 || !publicConfig.appId || !publicConfig.actionId) {
     // Render a fallback or throw an error during build if preferred
     return (
       <html lang="en" suppressHydrationWarning>
@@ -55,10 +48,7 @@ export default function RootLayout({
     <html lang="en" suppressHydrationWarning>
       <body className={inter.className}>
         <CaptchaProviderWrapper
-          recaptchaSiteKey={recaptchaSiteKey}
-          hcaptchaSiteKey={hcaptchaSiteKey}
-          appId={worldIdAppId}
-          actionId={worldIdActionId}
+          config={publicConfig}
         >
           <ThemeProvider attribute="class" defaultTheme="light" enableSystem>
             {children}
@@ -0,0 +1,11 @@
+import { Suspense } from "react"
+import VerifyPage from "@/verify-page"
+
+export default function Verify() {
+  // useSearchParams in VerifyPage requires a Suspense boundary
+  return (
+    <Suspense>
+      <VerifyPage />
+    </Suspense>
+  )
+}
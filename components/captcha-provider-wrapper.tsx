@@ -2,20 +2,16 @@
 
 import React from 'react';
 import { WidCaptchaProvider } from '@/wid-captcha-context'; // Adjust path if needed
+import type { PublicConfig } from '@/lib/public-config';
 
 interface CaptchaProviderWrapperProps {
-    appId: string;
-    actionId: string;
-    recaptchaSiteKey?: string;
-    hcaptchaSiteKey?: string;
+    // Runtime public configuration, read on the server (see app/layout.tsx)
+    config: PublicConfig;
     children: React.ReactNode;
 }
 
 export function CaptchaProviderWrapper({
-    appId,
-    actionId,
-    recaptchaSiteKey,
-    hcaptchaSiteKey,
+    config,
     children
 }: CaptchaProviderWrapperProps) {
 
@@ -32,10 +28,7 @@ export function CaptchaProviderWrapper({
 
     return (
         <WidCaptchaProvider
-            appId={appId}
-            actionId={actionId}
-            recaptchaSiteKey={recaptchaSiteKey}
-            hcaptchaSiteKey={hcaptchaSiteKey}
+            config={config}
             onVerificationComplete={handleVerificationResult}
             onError={handleError}
         >
@@ -6,6 +6,7 @@ import { useRouter } from "next/navigation"
 import { WidCaptcha } from "./wid-captcha"
 import { useWidCaptcha } from "./wid-captcha-context"
 import type { VerificationResult } from "./types"
+import { SITE_KEY_VARIABLES } from "@/lib/public-config"
 import Image from "next/image";
 import Link from "next/link";
 import "@/app/globals.css";
@@ -18,8 +19,17 @@ export default function ExamplePage() {
   const [isVerifying, setIsVerifying] = useState(false);
   const [verificationStartTime, setVerificationStartTime] = useState<number | null>(null);
 
-  // Get isVerified state from context for redundancy
-  const { isVerified } = useWidCaptcha();
+  // Get isVerified state and the runtime configuration from context
+  const {
+    isVerified,
+    isConfigLoaded,
+    appId,
+    actionId,
+    captchaProvider,
+    recaptchaSiteKey,
+    hcaptchaSiteKey,
+    turnstileSiteKey,
+  } = useWidCaptcha();
 
   // Minimum time (in ms) that the verification pending state should be shown
   const MIN_VERIFICATION_DISPLAY_TIME = 2500;
@@ -119,26 +129,20 @@ export default function ExamplePage() {
     setCaptchaKey(Date.now()); // This forces the captcha component to fully re-render
   };
 
-  const appId = process.env.NEXT_PUBLIC_WLD_APP_ID;
-  const actionId = process.env.NEXT_PUBLIC_WLD_ACTION_ID;
-  const captchaProvider = (process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER || 'recaptcha') as 'recaptcha' | 'hcaptcha';
-  const recaptchaSiteKey = process.env.NEXT_PUBLIC_RECAPTCHA_SITE_KEY;
-  const hcaptchaSiteKey = process.env.NEXT_PUBLIC_HCAPTCHA_SITE_KEY;
+  // The provider fetches the runtime configuration on mount
+  if (!isConfigLoaded) {
+    return <div className="p-4">Loading configuration...</div>;
+  }
 
-  // Get the appropriate site key based on the selected provider
-  const captchaSiteKey = captchaProvider === 'recaptcha' ? recaptchaSiteKey : hcaptchaSiteKey;
+  // Site key of the selected provider
+  const captchaSiteKey = { recaptcha: recaptchaSiteKey, hcaptcha: hcaptchaSiteKey, turnstile: turnstileSiteKey }[captchaProvider] ?? undefined;
 
   // Check if the essential variables are set and not empty
-  if (!appId || !actionId || !captchaSiteKey || appId === "" || actionId === "" || captchaSiteKey === "") {
+  if (!appId || !actionId || !captchaSiteKey) {
     const missingVars = [];
-    if (!appId || appId === "") missingVars.push("NEXT_PUBLIC_WLD_APP_ID");
-    if (!actionId || actionId === "") missingVars.push("NEXT_PUBLIC_WLD_ACTION_ID");
-    if (captchaProvider === 'recaptcha' && (!recaptchaSiteKey || recaptchaSiteKey === "")) {
-      missingVars.push("NEXT_PUBLIC_RECAPTCHA_SITE_KEY");
-    }
-    if (captchaProvider === 'hcaptcha' && (!hcaptchaSiteKey || hcaptchaSiteKey === "")) {
-      missingVars.push("NEXT_PUBLIC_HCAPTCHA_SITE_KEY");
-    }
+    if (!appId) missingVars.push("NEXT_PUBLIC_WLD_APP_ID");
+    if (!actionId) missingVars.push("NEXT_PUBLIC_WLD_ACTION_ID");
+    if (!captchaSiteKey) missingVars.push(SITE_KEY_VARIABLES[captchaProvider]);
 
     console.error(`Required environment variables (${missingVars.join(", ")}) are not properly set.`);
     return <div className="p-4 text-red-600">
@@ -158,13 +162,20 @@ export default function ExamplePage() {
         key={captchaKey}
         appId={appId as `app_${string}`}
         actionId={actionId}
-        recaptchaSiteKey={captchaProvider === 'recaptcha' ? recaptchaSiteKey : undefined}
-        hcaptchaSiteKey={captchaProvider === 'hcaptcha' ? hcaptchaSiteKey : undefined}
+        recaptchaSiteKey={captchaProvider === 'recaptcha' ? captchaSiteKey : undefined}
+        hcaptchaSiteKey={captchaProvider === 'hcaptcha' ? captchaSiteKey : undefined}
+        turnstileSiteKey={captchaProvider === 'turnstile' ? captchaSiteKey : undefined}
         onVerificationComplete={handleVerificationComplete}
         onVerificationStart={handleVerificationStart}
         hideSuccessMessage={true}
       />
 
+      {showSuccess && (
+        <Link href="/congratulations" className="mt-4 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600">
+          Continue
+        </Link>
+      )}
+
       {verificationResult?.success === false && (
         <div className="mt-4 p-4 border border-red-300 bg-red-50 rounded-md text-center">
           <p className="text-red-700 mb-3">Verification Failed. Please try again.</p>
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+
+// Ordered strength of a human verification, derived from the method and the World ID credential.
+// Shared by the server (sessions, `requireHuman`) and client components (`WidCaptcha` `requireLevel`).
+
+/**
+ * Assurance levels from weakest to strongest:
+ * - 'none': not verified.
+ * - 'captcha': any CAPTCHA provider, or a custom verifier.
+ * - 'world_id_device': World ID with a device credential (also 'document' and 'secure_document').
+ * - 'world_id_orb': World ID with an Orb credential.
+ */
+export const ASSURANCE_LEVELS = ['none', 'captcha', 'world_id_device', 'world_id_orb'] as const;
+
+export const assuranceLevelSchema = z.enum(ASSURANCE_LEVELS);
+
+export type AssuranceLevel = z.infer<typeof assuranceLevelSchema>;
+
+/**
+ * Derives the assurance level of a successful verification.
+ * @param method - Verification method ('world_id', 'recaptcha', a custom verifier's method), or null/'none' if unverified.
+ * @param verificationLevel - World ID `verification_level` (formerly `credential_type`), e.g. 'orb' or 'device'.
+ */
+export function getAssuranceLevel(method: string | null | undefined, verificationLevel?: string | null): AssuranceLevel {
+    if (!method || method === 'none') {
+        return 'none';
+    }
+    if (method !== 'world_id') {
+        // Unknown (in-house) methods count as a CAPTCHA
+        return 'captcha';
+    }
+    return verificationLevel === 'orb' ? 'world_id_orb' : 'world_id_device';
+}
+
+/**
+ * Returns true if `level` is at least as strong as `required`.
+ */
+export function meetsAssuranceLevel(level: AssuranceLevel, required: AssuranceLevel): boolean {
+    return ASSURANCE_LEVELS.indexOf(level) >= ASSURANCE_LEVELS.indexOf(required);
+}
+
+/**
+ * Returns the stronger of two assurance levels.
+ */
+export function maxAssuranceLevel(a: AssuranceLevel, b: AssuranceLevel): AssuranceLevel {
+    return meetsAssuranceLevel(a, b) ? a : b;
+}
@@ -0,0 +1,186 @@
+import { createHash, createHmac } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { serverConfig } from './config';
+import { logger } from './logger';
+import type { SqliteDatabase } from './sqlite';
+
+/**
+ * One verification request, as recorded for abuse investigations.
+ * IPs and nullifiers are stored only as (keyed) hashes: entries can be correlated with each other
+ * and with a known value, but the raw values cannot be read back.
+ */
+export interface AuditEntry {
+    // Milliseconds since the epoch.
+    timestamp: number;
+    requestId: string;
+    ipHash: string | null;
+    nullifierHash: string | null;
+    // Verification method that produced the outcome (e.g. 'world_id', 'recaptcha'), if any.
+    method: string | null;
+    // World ID verification level ('orb', 'device'), if any.
+    level: string | null;
+    outcome: AuditOutcome;
+    // Failure code or provider reason, if any.
+    reason: string | null;
+    status: number;
+    latencyMs: number;
+}
+
+export type AuditOutcome = 'success' | 'failure' | 'rate_limited' | 'token_reused' | 'invalid_request' | 'error';
+
+/**
+ * Destination for audit entries.
+ */
+export interface AuditSink {
+    write(entry: AuditEntry): Promise<void>;
+    // Deletes entries older than `before` (ms).
+    purge(before: number): Promise<void>;
+}
+
+// --- JSONL File Sink --- //
+
+/**
+ * Appends entries as JSON lines to one file per UTC day (`audit-YYYY-MM-DD.jsonl`) in `directory`.
+ * Purging deletes whole days, so retention is applied with day granularity.
+ */
+export class JsonlFileAuditSink implements AuditSink {
+    private ready: Promise<unknown> | null = null;
+
+    constructor(private directory: string) { }
+
+    private fileFor(timestamp: number): string {
+        return path.join(this.directory, `audit-${new Date(timestamp).toISOString().slice(0, 10)}.jsonl`);
+    }
+
+    async write(entry: AuditEntry): Promise<void> {
+        this.ready ??= fs.mkdir(this.directory, { recursive: true });
+        await this.ready;
+        await fs.appendFile(this.fileFor(entry.timestamp), `${JSON.stringify(entry)}\n`);
+    }
+
+    async purge(before: number): Promise<void> {
+        let files: string[];
+        try {
+            files = await fs.readdir(this.directory);
+        } catch (error: unknown) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return;
+            }
+            throw error;
+        }
+        // A day's file may still hold entries newer than `before` until the whole day is past
+        const cutoff = path.basename(this.fileFor(before));
+        await Promise.all(files
+            .filter((file) => /^audit-\d{4}-\d{2}-\d{2}\.jsonl$/.test(file) && file < cutoff)
+            .map((file) => fs.unlink(path.join(this.directory, file))));
+    }
+}
+
+// --- SQLite Sink --- //
+
+/**
+ * Stores entries in a SQLite table (`verification_audit`), created on first use.
+ * @param db - An open database, e.g. `new Database('audit.db')` from better-sqlite3.
+ */
+export class SqliteAuditSink implements AuditSink {
+    constructor(private db: SqliteDatabase) {
+        db.exec(`CREATE TABLE IF NOT EXISTS verification_audit (
+            timestamp INTEGER NOT NULL,
+            request_id TEXT NOT NULL,
+            ip_hash TEXT,
+            nullifier_hash TEXT,
+            method TEXT,
+            level TEXT,
+            outcome TEXT NOT NULL,
+            reason TEXT,
+            status INTEGER NOT NULL,
+            latency_ms INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS verification_audit_timestamp ON verification_audit (timestamp);
+        CREATE INDEX IF NOT EXISTS verification_audit_ip ON verification_audit (ip_hash, timestamp);
+        CREATE INDEX IF NOT EXISTS verification_audit_nullifier ON verification_audit (nullifier_hash, timestamp);`);
+    }
+
+    async write(entry: AuditEntry): Promise<void> {
+        this.db.prepare(`INSERT INTO verification_audit
+            (timestamp, request_id, ip_hash, nullifier_hash, method, level, outcome, reason, status, latency_ms)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`).run(
+            entry.timestamp, entry.requestId, entry.ipHash, entry.nullifierHash, entry.method,
+            entry.level, entry.outcome, entry.reason, entry.status, Math.round(entry.latencyMs),
+        );
+    }
+
+    async purge(before: number): Promise<void> {
+        this.db.prepare('DELETE FROM verification_audit WHERE timestamp < ?').run(before);
+    }
+}
+
+// --- Configuration --- //
+// **Server-Side Environment Variables**
+
+// Audit backend: 'off' (default) or 'file'. Use `setAuditSink` for SQLite or custom sinks.
+const AUDIT_LOG = serverConfig.AUDIT_LOG;
+// Directory of the daily JSONL files when AUDIT_LOG is 'file'.
+const AUDIT_LOG_DIR = serverConfig.AUDIT_LOG_DIR;
+// Entries older than this many days are purged automatically. Defaults to 90.
+const AUDIT_RETENTION_DAYS = serverConfig.AUDIT_RETENTION_DAYS;
+// Optional: Key for hashing IPs and nullifiers (HMAC-SHA256). Without it plain SHA-256 is used,
+// which is cheap to reverse for IPv4 addresses.
+const AUDIT_HASH_SECRET = serverConfig.AUDIT_HASH_SECRET;
+
+// Retention is enforced at most this often, piggybacking on writes.
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+let sink: AuditSink | null = AUDIT_LOG === 'file' ? new JsonlFileAuditSink(AUDIT_LOG_DIR) : null;
+let retentionMs = AUDIT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+let lastPurgeAt = 0;
+
+/**
+ * Replaces the audit sink (e.g. with a `SqliteAuditSink`), or disables auditing with null.
+ * @param retentionDays - Optional: Overrides AUDIT_RETENTION_DAYS.
+ */
+export function setAuditSink(newSink: AuditSink | null, retentionDays?: number): void {
+    sink = newSink;
+    if (retentionDays !== undefined) {
+        retentionMs = retentionDays * 24 * 60 * 60 * 1000;
+    }
+    lastPurgeAt = 0;
+}
+
+/**
+ * Returns true if verification requests are being audited.
+ */
+export function isAuditEnabled(): boolean {
+    return sink !== null;
+}
+
+/**
+ * Hashes an IP or nullifier for the audit log.
+ */
+export function hashForAudit(value: string | null | undefined): string | null {
+    if (!value) {
+        return null;
+    }
+    const hash = AUDIT_HASH_SECRET ? createHmac('sha256', AUDIT_HASH_SECRET) : createHash('sha256');
+    return hash.update(value).digest('hex');
+}
+
+/**
+ * Writes an entry to the audit sink and purges expired entries when due.
+ * Failures are logged, never thrown: auditing must not break verification.
+ */
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+    if (!sink) {
+        return;
+    }
+    try {
+        await sink.write(entry);
+        if (entry.timestamp - lastPurgeAt >= PURGE_INTERVAL_MS) {
+            lastPurgeAt = entry.timestamp;
+            await sink.purge(entry.timestamp - retentionMs);
+        }
+    } catch (error: unknown) {
+        logger.error('Failed to write audit log entry.', { error });
+    }
+}
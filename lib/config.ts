@@ -0,0 +1,239 @@
+import { z } from 'zod';
+import { captchaProviderListSchema, captchaProviderSchema, diagnosePublicConfig, formatConfigProblems, primaryVerifierSchema, publicEnvSchema, recaptchaVersionSchema, toPublicConfig } from './public-config';
+import type { ConfigProblem, PublicConfig } from './public-config';
+
+// Single source of truth for server configuration: every environment variable is validated here
+// once, at startup. Modules read their settings from `serverConfig` instead of `process.env`.
+// See `.env.example` for what each variable does.
+
+// --- Schema --- //
+
+// Unset and empty variables are treated the same.
+const emptyAsUndefined = (value: unknown) => (value === '' ? undefined : value);
+const optionalString = z.preprocess(emptyAsUndefined, z.string().optional());
+const int = (defaultValue: number, min = 0) => z.preprocess(emptyAsUndefined, z.coerce.number().int().min(min).default(defaultValue));
+const optionalInt = z.preprocess(emptyAsUndefined, z.coerce.number().int().positive().optional());
+// Values copied from examples (e.g. "your_session_secret", "changeme") that must never sign or key anything.
+const PLACEHOLDER_SECRET_PATTERN = /^(?:your[_-]|change[_-]?me|secret$|password$)/i;
+const secret = (minLength: number) => z.preprocess(emptyAsUndefined, z.string()
+    .min(minLength, `Must be at least ${minLength} characters, e.g. from \`openssl rand -base64 32\``)
+    .refine((value) => !PLACEHOLDER_SECRET_PATTERN.test(value), 'Is a placeholder; generate a random value, e.g. with `openssl rand -base64 32`')
+    .optional());
+const bool = (defaultValue: boolean) => z.preprocess(
+    emptyAsUndefined,
+    z.enum(['true', 'false']).default(defaultValue ? 'true' : 'false').transform((value) => value === 'true'),
+);
+
+const serverEnvSchema = publicEnvSchema.extend({
+    // Verifiers
+    CAPTCHA_PROVIDER: z.preprocess(emptyAsUndefined, captchaProviderSchema.optional()),
+    CAPTCHA_PROVIDERS: captchaProviderListSchema,
+    PRIMARY_VERIFIER: z.preprocess(emptyAsUndefined, primaryVerifierSchema.default('worldid')),
+    RECAPTCHA_SECRET_KEY: optionalString,
+    HCAPTCHA_SECRET_KEY: optionalString,
+    TURNSTILE_SECRET_KEY: optionalString,
+    RECAPTCHA_VERSION: z.preprocess(emptyAsUndefined, recaptchaVersionSchema.optional()),
+    RECAPTCHA_ACTION: optionalString,
+    RECAPTCHA_MIN_SCORE: z.preprocess(emptyAsUndefined, z.coerce.number().min(0).max(1).default(0.5)),
+    WORLD_ID_TIMEOUT_MS: optionalInt,
+    RECAPTCHA_TIMEOUT_MS: optionalInt,
+    HCAPTCHA_TIMEOUT_MS: optionalInt,
+    TURNSTILE_TIMEOUT_MS: optionalInt,
+    VERIFICATION_POLICY_FILE: optionalString,
+    // CAPTCHA binding checks
+    CAPTCHA_ALLOWED_HOSTNAMES: z.preprocess(emptyAsUndefined, z.string().default('')).transform((value) => value
+        .split(',')
+        .map((hostname) => hostname.trim().toLowerCase())
+        .filter(Boolean)),
+    CAPTCHA_MAX_CHALLENGE_AGE_SECONDS: int(300, 1),
+    // Replay protection
+    NULLIFIER_STORE: z.preprocess(emptyAsUndefined, z.enum(['memory', 'file']).default('memory')),
+    NULLIFIER_STORE_PATH: z.preprocess(emptyAsUndefined, z.string().default('.nullifiers.json')),
+    NULLIFIER_MAX_USES: int(1, 1),
+    NULLIFIER_WINDOW_SECONDS: int(86400),
+    // Upstream resilience
+    UPSTREAM_TIMEOUT_MS: int(5000, 1),
+    UPSTREAM_MAX_RETRIES: int(2),
+    UPSTREAM_RETRY_BASE_MS: int(200),
+    CIRCUIT_FAILURE_THRESHOLD: int(5, 1),
+    CIRCUIT_RESET_MS: int(30000, 1),
+    // Rate limiting
+    RATE_LIMIT_IP_MAX: int(20, 1),
+    RATE_LIMIT_IP_WINDOW_SECONDS: int(60, 1),
+    RATE_LIMIT_NULLIFIER_MAX: int(5, 1),
+    RATE_LIMIT_NULLIFIER_WINDOW_SECONDS: int(60, 1),
+    RATE_LIMIT_FAILURE_THRESHOLD: int(5, 1),
+    RATE_LIMIT_LOCKOUT_SECONDS: int(60, 1),
+    RATE_LIMIT_MAX_LOCKOUT_SECONDS: int(3600, 1),
+    TRUSTED_PROXY_HOPS: int(0),
+    // Request handling
+    CAPTCHA_TOKEN_CACHE_TTL_SECONDS: int(300, 1),
+    VERIFY_MAX_BODY_BYTES: int(16384, 1024),
+    // Observability
+    LOG_LEVEL: z.preprocess(emptyAsUndefined, z.enum(['debug', 'info', 'warn', 'error']).default('info')),
+    LOG_REDACT: bool(true),
+    METRICS_BEARER_TOKEN: secret(16),
+    AUDIT_LOG: z.preprocess(emptyAsUndefined, z.enum(['off', 'file']).default('off')),
+    AUDIT_LOG_DIR: z.preprocess(emptyAsUndefined, z.string().default('.audit')),
+    AUDIT_RETENTION_DAYS: int(90, 1),
+    AUDIT_HASH_SECRET: secret(16),
+    // Human session
+    SESSION_SECRET: secret(32),
+    SESSION_TTL_SECONDS: int(3600, 1),
+    SESSION_TOKEN_IN_BODY: bool(false),
+});
+
+type ServerEnv = z.infer<typeof serverEnvSchema>;
+
+/**
+ * Validated server configuration. Server-side CAPTCHA settings default to their NEXT_PUBLIC_*
+ * counterparts, so the provider only needs to be configured once.
+ * `CAPTCHA_PROVIDERS` holds every enabled provider in failover order; `CAPTCHA_PROVIDER` is its first entry.
+ */
+export type ServerConfig = Omit<ServerEnv, 'CAPTCHA_PROVIDER' | 'CAPTCHA_PROVIDERS' | 'RECAPTCHA_VERSION' | 'RECAPTCHA_ACTION'> & {
+    CAPTCHA_PROVIDER: ServerEnv['NEXT_PUBLIC_CAPTCHA_PROVIDER'];
+    CAPTCHA_PROVIDERS: ServerEnv['NEXT_PUBLIC_CAPTCHA_PROVIDER'][];
+    RECAPTCHA_VERSION: ServerEnv['NEXT_PUBLIC_RECAPTCHA_VERSION'];
+    RECAPTCHA_ACTION: string;
+};
+
+// --- Diagnostics --- //
+
+/**
+ * Raised at startup when variables have invalid values. The message lists every problem found.
+ */
+export class ConfigError extends Error {
+    constructor(public problems: ConfigProblem[]) {
+        super(formatConfigProblems(problems));
+        this.name = 'ConfigError';
+    }
+}
+
+const SECRET_KEY_VARIABLES = {
+    recaptcha: 'RECAPTCHA_SECRET_KEY',
+    hcaptcha: 'HCAPTCHA_SECRET_KEY',
+    turnstile: 'TURNSTILE_SECRET_KEY',
+} as const;
+
+// Values never included in problem messages.
+const HIDDEN_VARIABLES: ReadonlySet<string> = new Set([...Object.values(SECRET_KEY_VARIABLES), 'METRICS_BEARER_TOKEN', 'AUDIT_HASH_SECRET', 'SESSION_SECRET']);
+
+// Flags server settings that disagree with what the client was built with
+function checkMatches(problems: ConfigProblem[], variable: string, serverValue: string | undefined, publicVariable: string, publicValue: string): void {
+    if (serverValue !== undefined && serverValue !== publicValue) {
+        problems.push({
+            severity: 'error',
+            variable,
+            message: `"${serverValue}" does not match ${publicVariable} "${publicValue}". Unset ${variable} (it defaults to ${publicVariable}) or make them equal.`,
+        });
+    }
+}
+
+function diagnoseConfig(env: ServerEnv, config: ServerConfig): ConfigProblem[] {
+    const problems = diagnosePublicConfig(toRuntimePublicConfig(config));
+
+    checkMatches(problems, 'CAPTCHA_PROVIDER', env.CAPTCHA_PROVIDER, 'NEXT_PUBLIC_CAPTCHA_PROVIDER', env.NEXT_PUBLIC_CAPTCHA_PROVIDER);
+    if (env.NEXT_PUBLIC_CAPTCHA_PROVIDERS) {
+        checkMatches(problems, 'CAPTCHA_PROVIDERS', env.CAPTCHA_PROVIDERS?.join(','), 'NEXT_PUBLIC_CAPTCHA_PROVIDERS', env.NEXT_PUBLIC_CAPTCHA_PROVIDERS.join(','));
+    }
+    if (env.CAPTCHA_PROVIDER && env.CAPTCHA_PROVIDER !== config.CAPTCHA_PROVIDER) {
+        problems.push({ severity: 'warning', variable: 'CAPTCHA_PROVIDER', message: `Ignored, the provider list starts with "${config.CAPTCHA_PROVIDER}".` });
+    }
+    if (config.CAPTCHA_PROVIDERS.includes('recaptcha')) {
+        checkMatches(problems, 'RECAPTCHA_VERSION', env.RECAPTCHA_VERSION, 'NEXT_PUBLIC_RECAPTCHA_VERSION', env.NEXT_PUBLIC_RECAPTCHA_VERSION);
+        checkMatches(problems, 'RECAPTCHA_ACTION', env.RECAPTCHA_ACTION, 'NEXT_PUBLIC_RECAPTCHA_ACTION', env.NEXT_PUBLIC_RECAPTCHA_ACTION);
+    }
+
+    for (const provider of config.CAPTCHA_PROVIDERS) {
+        const secretVariable = SECRET_KEY_VARIABLES[provider];
+        if (!env[secretVariable]) {
+            problems.push({ severity: 'error', variable: secretVariable, message: `Secret key for CAPTCHA provider "${provider}" is not set.` });
+        }
+    }
+    if (!env.SESSION_SECRET) {
+        problems.push({ severity: 'warning', variable: 'SESSION_SECRET', message: 'Not set. Successful verifications will not issue a human session.' });
+    }
+    if (env.AUDIT_LOG !== 'off' && !env.AUDIT_HASH_SECRET) {
+        problems.push({ severity: 'warning', variable: 'AUDIT_HASH_SECRET', message: 'Not set. Audit log hashes of IPs and nullifiers are unkeyed.' });
+    }
+    if (env.TRUSTED_PROXY_HOPS === 0 && !process.env.VERCEL) {
+        problems.push({
+            severity: 'warning',
+            variable: 'TRUSTED_PROXY_HOPS',
+            message: '0 uses the platform-provided client IP, which only some hosts (e.g. Vercel) set; `next start` does not. Without it, all clients share one rate limit and lockouts are off. Set it to the number of reverse proxies in front of the app.',
+        });
+    }
+    if (!env.LOG_REDACT && process.env.NODE_ENV === 'production') {
+        problems.push({ severity: 'warning', variable: 'LOG_REDACT', message: 'Disabled in production. Logs will contain proofs, tokens and IPs.' });
+    }
+    return problems;
+}
+
+// --- Loading --- //
+
+// Public configuration reporting the providers and reCAPTCHA settings the server actually verifies with.
+function toRuntimePublicConfig(config: ServerConfig): PublicConfig {
+    return {
+        ...toPublicConfig(config),
+        captchaProvider: config.CAPTCHA_PROVIDER,
+        captchaProviders: config.CAPTCHA_PROVIDERS,
+        recaptchaVersion: config.RECAPTCHA_VERSION,
+        recaptchaAction: config.RECAPTCHA_ACTION,
+        primaryVerifier: config.PRIMARY_VERIFIER,
+    };
+}
+
+// Without an explicit list, only the default provider is enabled. Others are enabled by listing them,
+// never just because their secret key happens to be set.
+function resolveCaptchaProviders(env: ServerEnv): ServerConfig['CAPTCHA_PROVIDERS'] {
+    return env.CAPTCHA_PROVIDERS ?? env.NEXT_PUBLIC_CAPTCHA_PROVIDERS ?? [env.CAPTCHA_PROVIDER ?? env.NEXT_PUBLIC_CAPTCHA_PROVIDER];
+}
+
+function resolve(env: ServerEnv): ServerConfig {
+    const captchaProviders = resolveCaptchaProviders(env);
+    return {
+        ...env,
+        CAPTCHA_PROVIDER: captchaProviders[0],
+        CAPTCHA_PROVIDERS: captchaProviders,
+        RECAPTCHA_VERSION: env.RECAPTCHA_VERSION ?? env.NEXT_PUBLIC_RECAPTCHA_VERSION,
+        RECAPTCHA_ACTION: env.RECAPTCHA_ACTION ?? env.NEXT_PUBLIC_RECAPTCHA_ACTION,
+    };
+}
+
+/**
+ * Validates environment variables and checks them for missing or mismatched settings.
+ * @returns The configuration and any problems that do not prevent startup (missing keys, mismatches).
+ * @throws ConfigError if any variable has an invalid value, listing every problem found.
+ */
+export function loadConfig(env: Record<string, string | undefined> = process.env): { config: ServerConfig; problems: ConfigProblem[] } {
+    const parsed = serverEnvSchema.safeParse(env);
+    if (parsed.success) {
+        const config = resolve(parsed.data);
+        return { config, problems: diagnoseConfig(parsed.data, config) };
+    }
+
+    // Report the remaining problems too, checked against defaults for the invalid variables
+    const invalidVariables = new Set(parsed.error.issues.map((issue) => String(issue.path[0])));
+    const valueProblems: ConfigProblem[] = parsed.error.issues.map((issue) => {
+        const variable = String(issue.path[0]);
+        // Rejected secrets are not echoed into logs
+        const value = HIDDEN_VARIABLES.has(variable) ? '(hidden)' : `"${env[variable]}"`;
+        return { severity: 'error', variable, message: `Invalid value ${value}: ${issue.message}` };
+    });
+    const fallback = serverEnvSchema.parse(Object.fromEntries(Object.entries(env).filter(([name]) => !invalidVariables.has(name))));
+    throw new ConfigError([...valueProblems, ...diagnoseConfig(fallback, resolve(fallback))]);
+}
+
+const loaded = loadConfig();
+
+export const serverConfig: ServerConfig = loaded.config;
+
+// Problems that did not prevent startup. Logged once by `lib/verifiers`.
+export const configProblems: ConfigProblem[] = loaded.problems;
+
+// The subset of the configuration that is safe to send to the browser, read from the environment
+// at runtime so one build can serve several deployments.
+export const publicConfig: PublicConfig = toRuntimePublicConfig(serverConfig);
+
+export { formatConfigProblems };
+export type { ConfigProblem, PublicConfig };
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSessionConfigured, verifySessionToken, SESSION_COOKIE_NAME } from './session';
+import { sanitizeReturnTo } from './utils';
+
+export { sanitizeReturnTo };
+
+/**
+ * A path pattern. Strings match the path itself and everything below it
+ * ('/dashboard' matches '/dashboard' and '/dashboard/settings'); RegExps are tested against the pathname.
+ */
+export type PathPattern = string | RegExp;
+
+export interface HumanMiddlewareOptions {
+    // Paths that require a valid human session.
+    protectedPaths: PathPattern[];
+    // Page hosting `WidCaptcha` that unverified visitors are sent to. Defaults to '/verify'.
+    verifyPath?: string;
+    // Paths that are never gated, checked before `protectedPaths`. Defaults to `DEFAULT_EXCLUDED_PATHS`.
+    excludedPaths?: PathPattern[];
+    // Query parameter carrying the original URL to the verify page. Defaults to 'returnTo'.
+    returnToParam?: string;
+}
+
+// Next.js assets, the verification API itself and common static files.
+export const DEFAULT_EXCLUDED_PATHS: PathPattern[] = [
+    '/_next',
+    '/api/verify-captcha',
+    '/favicon.ico',
+    /\.(?:svg|png|jpe?g|gif|webp|ico|css|js|map|txt|woff2?)$/,
+];
+
+// Set once the missing SESSION_SECRET has been reported.
+let warnedSessionNotConfigured = false;
+
+export function matchesPath(pathname: string, pattern: PathPattern): boolean {
+    if (pattern instanceof RegExp) {
+        return pattern.test(pathname);
+    }
+    const base = pattern.endsWith('/') && pattern !== '/' ? pattern.slice(0, -1) : pattern;
+    return base === '/' || pathname === base || pathname.startsWith(`${base}/`);
+}
+
+/**
+ * Creates a Next.js middleware that redirects visitors without a valid human session
+ * from protected paths to the verify page, passing the original URL as `returnTo`.
+ * Without SESSION_SECRET no session can be valid, so every request passes through (with a warning)
+ * instead of redirecting in a loop.
+ *
+ * @example
+ * // middleware.ts
+ * export default createHumanMiddleware({ protectedPaths: ['/dashboard'] });
+ */
+export function createHumanMiddleware(options: HumanMiddlewareOptions) {
+    const verifyPath = options.verifyPath ?? '/verify';
+    const excludedPaths = [...(options.excludedPaths ?? DEFAULT_EXCLUDED_PATHS), verifyPath];
+    const returnToParam = options.returnToParam ?? 'returnTo';
+
+    return async function humanMiddleware(request: NextRequest) {
+        const { pathname, search } = request.nextUrl;
+
+        if (excludedPaths.some((pattern) => matchesPath(pathname, pattern))) {
+            return NextResponse.next();
+        }
+        if (!options.protectedPaths.some((pattern) => matchesPath(pathname, pattern))) {
+            return NextResponse.next();
+        }
+
+        if (!isSessionConfigured()) {
+            if (!warnedSessionNotConfigured) {
+                warnedSessionNotConfigured = true;
+                // The logger depends on Node APIs; middleware runs on the Edge runtime
+                console.warn('SESSION_SECRET is not set: human middleware lets every request through. Set it to protect pages.');
+            }
+            return NextResponse.next();
+        }
+
+        const claims = await verifySessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+        if (claims) {
+            return NextResponse.next();
+        }
+
+        const verifyUrl = request.nextUrl.clone();
+        verifyUrl.pathname = verifyPath;
+        verifyUrl.search = '';
+        verifyUrl.searchParams.set(returnToParam, `${pathname}${search}`);
+        return NextResponse.redirect(verifyUrl);
+    };
+}
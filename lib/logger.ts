@@ -0,0 +1,143 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { serverConfig } from './config';
+
+// --- Configuration --- //
+// **Server-Side Environment Variables**
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Minimum level written. Defaults to 'info'.
+const LOG_LEVEL = serverConfig.LOG_LEVEL;
+// Redaction of secrets and PII is on unless explicitly disabled (only do this for local debugging).
+const LOG_REDACT = serverConfig.LOG_REDACT;
+
+// Field names whose values are never logged: proofs, tokens, nullifiers, secrets and client IPs.
+const REDACTED_KEYS = new Set([
+    'proof',
+    'merkle_root',
+    'nullifier_hash',
+    'nullifier',
+    'captcha_token',
+    'token',
+    'session_token',
+    'idkit_response',
+    'response',
+    'secret',
+    'authorization',
+    'cookie',
+    'ip',
+    'clientip',
+    'remoteip',
+    'x-forwarded-for',
+    'x-real-ip',
+]);
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * A single structured log line.
+ */
+export interface LogEntry {
+    time: string;
+    level: LogLevel;
+    message: string;
+    requestId?: string;
+    [field: string]: unknown;
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+// Default sink: one JSON object per line, errors and warnings to stderr.
+const jsonLinesSink: LogSink = (entry) => {
+    const line = JSON.stringify(entry);
+    if (entry.level === 'error' || entry.level === 'warn') {
+        process.stderr.write(`${line}\n`);
+    } else {
+        process.stdout.write(`${line}\n`);
+    }
+};
+
+let sink: LogSink = jsonLinesSink;
+
+/**
+ * Replaces where log entries go (e.g. a log shipper). Entries are already redacted.
+ */
+export function setLogSink(newSink: LogSink): void {
+    sink = newSink;
+}
+
+// --- Redaction --- //
+
+/**
+ * Returns a copy of `value` with sensitive fields replaced by '[REDACTED]' and Errors made serializable.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+    if (value instanceof Error) {
+        return { name: value.name, message: value.message };
+    }
+    if (value === null || typeof value !== 'object' || depth > 8) {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => redact(item, depth + 1));
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+        result[key] = LOG_REDACT && REDACTED_KEYS.has(key.toLowerCase()) ? REDACTED : redact(item, depth + 1);
+    }
+    return result;
+}
+
+// --- Request Correlation --- //
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+/**
+ * Runs `fn` with a request ID that is attached to every log entry written during it,
+ * including from modules that do not receive the request (verifiers, upstream calls).
+ */
+export function withRequestId<T>(requestId: string, fn: () => T): T {
+    return requestContext.run({ requestId }, fn);
+}
+
+export function getRequestId(): string | undefined {
+    return requestContext.getStore()?.requestId;
+}
+
+// --- Logger --- //
+
+export interface Logger {
+    debug(message: string, fields?: Record<string, unknown>): void;
+    info(message: string, fields?: Record<string, unknown>): void;
+    warn(message: string, fields?: Record<string, unknown>): void;
+    error(message: string, fields?: Record<string, unknown>): void;
+    // Returns a logger that adds `bindings` to every entry.
+    child(bindings: Record<string, unknown>): Logger;
+}
+
+function createLogger(bindings: Record<string, unknown> = {}): Logger {
+    const write = (level: LogLevel, message: string, fields?: Record<string, unknown>) => {
+        if (LEVEL_RANK[level] < (LEVEL_RANK[LOG_LEVEL] ?? LEVEL_RANK.info)) {
+            return;
+        }
+        const requestId = getRequestId();
+        sink({
+            time: new Date().toISOString(),
+            level,
+            message,
+            ...(requestId ? { requestId } : {}),
+            ...(redact({ ...bindings, ...fields }) as Record<string, unknown>),
+        });
+    };
+    return {
+        debug: (message, fields) => write('debug', message, fields),
+        info: (message, fields) => write('info', message, fields),
+        warn: (message, fields) => write('warn', message, fields),
+        error: (message, fields) => write('error', message, fields),
+        child: (childBindings) => createLogger({ ...bindings, ...childBindings }),
+    };
+}
+
+export const logger = createLogger();
@@ -0,0 +1,18 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { serverConfig } from '@/lib/config';
+
+// Optional: Bearer token required to scrape metrics and to read upstream error details on the health endpoint.
+const METRICS_BEARER_TOKEN = serverConfig.METRICS_BEARER_TOKEN;
+
+/**
+ * Returns true if METRICS_BEARER_TOKEN is set and the request presents it as `Authorization: Bearer <token>`.
+ * Compares digests so neither the token length nor its bytes leak through timing.
+ */
+export function hasMetricsBearer(request: Request): boolean {
+    if (!METRICS_BEARER_TOKEN) {
+        return false;
+    }
+    const authHeader = request.headers.get('authorization') ?? '';
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(authHeader), digest(`Bearer ${METRICS_BEARER_TOKEN}`));
+}
@@ -0,0 +1,104 @@
+// Minimal in-process Prometheus metrics (text exposition format 0.0.4).
+// Values are per server instance; Prometheus aggregates across instances.
+
+type Labels = Record<string, string>;
+
+function labelKey(labels: Labels): string {
+    return JSON.stringify(Object.keys(labels).sort().map((key) => [key, labels[key]]));
+}
+
+function formatLabels(labels: Labels): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) {
+        return '';
+    }
+    const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+    return `{${entries.map(([key, value]) => `${key}="${escape(value)}"`).join(',')}}`;
+}
+
+interface Metric {
+    render(): string;
+}
+
+const metrics: Metric[] = [];
+
+/**
+ * Monotonic counter with labels.
+ */
+export class Counter implements Metric {
+    private values = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(private name: string, private help: string) {
+        metrics.push(this);
+    }
+
+    inc(labels: Labels = {}, amount = 1): void {
+        const key = labelKey(labels);
+        const entry = this.values.get(key) ?? { labels, value: 0 };
+        entry.value += amount;
+        this.values.set(key, entry);
+    }
+
+    render(): string {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+        this.values.forEach(({ labels, value }) => lines.push(`${this.name}${formatLabels(labels)} ${value}`));
+        return lines.join('\n');
+    }
+}
+
+/**
+ * Histogram with fixed buckets (upper bounds, in the metric's unit) and labels.
+ */
+export class Histogram implements Metric {
+    private values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+    constructor(private name: string, private help: string, private buckets: number[]) {
+        metrics.push(this);
+    }
+
+    observe(labels: Labels, value: number): void {
+        const key = labelKey(labels);
+        const entry = this.values.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+        this.buckets.forEach((bound, index) => {
+            if (value <= bound) {
+                entry.counts[index] += 1;
+            }
+        });
+        entry.sum += value;
+        entry.count += 1;
+        this.values.set(key, entry);
+    }
+
+    render(): string {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+        this.values.forEach(({ labels, counts, sum, count }) => {
+            this.buckets.forEach((bound, index) => {
+                lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+        });
+        return lines.join('\n');
+    }
+}
+
+/**
+ * Renders every registered metric in Prometheus text format.
+ */
+export function renderMetrics(): string {
+    return `${metrics.map((metric) => metric.render()).join('\n\n')}\n`;
+}
+
+// --- Verification Metrics --- //
+
+export const verificationAttempts = new Counter('wid_verification_attempts_total', 'Verification attempts per method.');
+export const verificationSuccesses = new Counter('wid_verification_successes_total', 'Successful verifications per method.');
+export const verificationFailures = new Counter('wid_verification_failures_total', 'Failed verifications per method and failure reason.');
+export const fallbackUsed = new Counter('wid_verification_fallback_used_total', 'Successful verifications that came from a fallback verifier, per method.');
+export const rateLimitRejections = new Counter('wid_rate_limit_rejections_total', 'Requests rejected by rate limiting or lockout, per reason.');
+export const upstreamLatency = new Histogram(
+    'wid_upstream_request_duration_seconds',
+    'Latency of upstream verification API calls per provider and outcome.',
+    [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+);
@@ -0,0 +1,84 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { JsonFileNullifierStore, MemoryNullifierStore, reserveNullifierUse, setNullifierStore } from './nullifier-store';
+import type { NullifierStore } from './nullifier-store';
+
+let directory: string;
+
+beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'nullifiers-'));
+});
+
+afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+});
+
+const stores: [string, () => NullifierStore][] = [
+    ['MemoryNullifierStore', () => new MemoryNullifierStore()],
+    ['JsonFileNullifierStore', () => new JsonFileNullifierStore(join(directory, 'nullifiers.json'))],
+];
+
+describe.each(stores)('%s', (_name, createStore) => {
+    it('records uses up to the limit', async () => {
+        const store = createStore();
+        await expect(store.tryConsume('vote', '0x1', 10, 0, 2)).resolves.toBe(true);
+        await expect(store.tryConsume('vote', '0x1', 20, 0, 2)).resolves.toBe(true);
+        await expect(store.tryConsume('vote', '0x1', 30, 0, 2)).resolves.toBe(false);
+    });
+
+    it('counts actions and nullifiers separately', async () => {
+        const store = createStore();
+        await expect(store.tryConsume('vote', '0x1', 10, 0, 1)).resolves.toBe(true);
+        await expect(store.tryConsume('login', '0x1', 10, 0, 1)).resolves.toBe(true);
+        await expect(store.tryConsume('vote', '0x2', 10, 0, 1)).resolves.toBe(true);
+    });
+
+    it('ignores uses before `since`', async () => {
+        const store = createStore();
+        await expect(store.tryConsume('vote', '0x1', 10, 0, 1)).resolves.toBe(true);
+        await expect(store.tryConsume('vote', '0x1', 20, 11, 1)).resolves.toBe(true);
+    });
+
+    it('lets exactly one of concurrent uses through', async () => {
+        const store = createStore();
+        const results = await Promise.all([1, 2, 3].map((t) => store.tryConsume('vote', '0x1', t, 0, 1)));
+        expect(results.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('frees a released use, once', async () => {
+        const store = createStore();
+        await store.tryConsume('vote', '0x1', 10, 0, 2);
+        await store.tryConsume('vote', '0x1', 10, 0, 2);
+        await store.release('vote', '0x1', 10);
+        await expect(store.tryConsume('vote', '0x1', 20, 0, 2)).resolves.toBe(true);
+        await expect(store.tryConsume('vote', '0x1', 30, 0, 2)).resolves.toBe(false);
+    });
+});
+
+describe('MemoryNullifierStore eviction', () => {
+    it('forgets nullifiers whose uses all left the window', async () => {
+        const store = new MemoryNullifierStore();
+        await store.tryConsume('vote', '0x1', 10, 0, 1);
+        await store.tryConsume('vote', '0x2', 2000, 1000, 1);
+
+        const uses = (store as unknown as { uses: Map<string, number[]> }).uses;
+        expect([...uses.keys()]).toEqual(['vote:0x2']);
+    });
+});
+
+describe('reserveNullifierUse', () => {
+    it('reserves within the policy and releases failed verifications', async () => {
+        setNullifierStore(new MemoryNullifierStore(), { maxUses: 1, windowMs: 1000 });
+
+        const reservation = await reserveNullifierUse('vote', '0x1', 0);
+        expect(reservation).not.toBeNull();
+        await expect(reserveNullifierUse('vote', '0x1', 1)).resolves.toBeNull();
+
+        await reservation?.release();
+        await expect(reserveNullifierUse('vote', '0x1', 2)).resolves.not.toBeNull();
+        // Outside the window the earlier use no longer counts
+        await expect(reserveNullifierUse('vote', '0x1', 1003)).resolves.not.toBeNull();
+    });
+});
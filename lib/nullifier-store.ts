@@ -0,0 +1,229 @@
+import { promises as fs } from 'fs';
+import { serverConfig } from './config';
+import type { SqliteDatabase } from './sqlite';
+
+/**
+ * Storage for World ID nullifier uses, keyed by action.
+ * A nullifier hash is unique per human and action, so recording it prevents the same
+ * human (or a captured proof) from being counted more often than the policy allows.
+ */
+export interface NullifierStore {
+    // Atomically records a use at `timestamp` (ms) unless `maxUses` uses at or after `since` are already
+    // recorded. Returns false (recording nothing) in that case. Implementations may drop uses older than `since`.
+    tryConsume(action: string, nullifier: string, timestamp: number, since: number, maxUses: number): Promise<boolean>;
+    // Removes one use recorded at `timestamp`, releasing a reservation whose verification failed.
+    release(action: string, nullifier: string, timestamp: number): Promise<void>;
+}
+
+// Removes one occurrence of `timestamp` (concurrent reservations may share a millisecond).
+function withoutOne(timestamps: number[], timestamp: number): number[] {
+    const index = timestamps.indexOf(timestamp);
+    return index === -1 ? timestamps : [...timestamps.slice(0, index), ...timestamps.slice(index + 1)];
+}
+
+/**
+ * How often a nullifier may be used.
+ * { maxUses: 1 } = once ever, { maxUses: 1, windowMs } = once per window, { maxUses: N } = N times.
+ */
+export interface NullifierPolicy {
+    maxUses: number;
+    // Optional: Only count uses within this many milliseconds. Counts forever when unset.
+    windowMs?: number;
+}
+
+// --- In-Memory Store --- //
+
+/**
+ * Keeps nullifiers in process memory. Suitable for development and single-instance deployments;
+ * uses are lost on restart. Nullifiers without uses in the window are evicted, at most once per window.
+ */
+export class MemoryNullifierStore implements NullifierStore {
+    private uses = new Map<string, number[]>();
+    private lastPrunedAt = 0;
+
+    // No await between the check and the write, so concurrent calls cannot interleave
+    async tryConsume(action: string, nullifier: string, timestamp: number, since: number, maxUses: number): Promise<boolean> {
+        // `since` is 0 when uses count forever
+        if (since > 0 && since >= this.lastPrunedAt) {
+            this.prune(since, timestamp);
+        }
+        const key = `${action}:${nullifier}`;
+        const kept = (this.uses.get(key) ?? []).filter((t) => t >= since);
+        if (kept.length >= maxUses) {
+            this.uses.set(key, kept);
+            return false;
+        }
+        this.uses.set(key, [...kept, timestamp]);
+        return true;
+    }
+
+    private prune(since: number, now: number): void {
+        this.lastPrunedAt = now;
+        for (const [key, timestamps] of this.uses) {
+            if (timestamps.every((t) => t < since)) {
+                this.uses.delete(key);
+            }
+        }
+    }
+
+    async release(action: string, nullifier: string, timestamp: number): Promise<void> {
+        const key = `${action}:${nullifier}`;
+        const kept = withoutOne(this.uses.get(key) ?? [], timestamp);
+        if (kept.length > 0) {
+            this.uses.set(key, kept);
+        } else {
+            this.uses.delete(key);
+        }
+    }
+}
+
+// --- JSON File Store --- //
+
+type NullifierFileData = Record<string, Record<string, number[]>>; // action -> nullifier -> timestamps
+
+/**
+ * Persists nullifiers to a JSON file. Checks and writes are serialized within the process;
+ * do not share the file between multiple server instances.
+ */
+export class JsonFileNullifierStore implements NullifierStore {
+    private data: NullifierFileData | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(private filePath: string) { }
+
+    private async load(): Promise<NullifierFileData> {
+        if (!this.data) {
+            try {
+                this.data = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as NullifierFileData;
+            } catch (error: unknown) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                    throw error;
+                }
+                this.data = {};
+            }
+        }
+        return this.data;
+    }
+
+    // Runs `task` after every earlier one, so a check and its write are never interleaved with another
+    private serialize<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task);
+        this.queue = result.catch(() => undefined); // Keep the queue alive after a failed write
+        return result;
+    }
+
+    async tryConsume(action: string, nullifier: string, timestamp: number, since: number, maxUses: number): Promise<boolean> {
+        return this.serialize(async () => {
+            const data = await this.load();
+            const byNullifier = (data[action] ??= {});
+            const kept = (byNullifier[nullifier] ?? []).filter((t) => t >= since);
+            if (kept.length >= maxUses) {
+                return false;
+            }
+            byNullifier[nullifier] = [...kept, timestamp];
+            await fs.writeFile(this.filePath, JSON.stringify(data));
+            return true;
+        });
+    }
+
+    async release(action: string, nullifier: string, timestamp: number): Promise<void> {
+        return this.serialize(async () => {
+            const data = await this.load();
+            const uses = data[action]?.[nullifier];
+            if (!uses) {
+                return;
+            }
+            data[action][nullifier] = withoutOne(uses, timestamp);
+            await fs.writeFile(this.filePath, JSON.stringify(data));
+        });
+    }
+}
+
+// --- SQLite Store --- //
+
+/**
+ * Persists nullifiers in a SQLite table (`nullifier_uses`), created on first use.
+ * @param db - An open database, e.g. `new Database('nullifiers.db')` from better-sqlite3.
+ */
+export class SqliteNullifierStore implements NullifierStore {
+    constructor(private db: SqliteDatabase) {
+        db.exec(`CREATE TABLE IF NOT EXISTS nullifier_uses (
+            action TEXT NOT NULL,
+            nullifier TEXT NOT NULL,
+            used_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS nullifier_uses_lookup ON nullifier_uses (action, nullifier, used_at);`);
+    }
+
+    // BEGIN IMMEDIATE takes the write lock up front, so other connections cannot count in between
+    async tryConsume(action: string, nullifier: string, timestamp: number, since: number, maxUses: number): Promise<boolean> {
+        this.db.exec('BEGIN IMMEDIATE');
+        try {
+            this.db.prepare('DELETE FROM nullifier_uses WHERE action = ? AND nullifier = ? AND used_at < ?').run(action, nullifier, since);
+            const { uses } = this.db
+                .prepare('SELECT COUNT(*) AS uses FROM nullifier_uses WHERE action = ? AND nullifier = ?')
+                .get(action, nullifier) as { uses: number };
+            if (uses >= maxUses) {
+                this.db.exec('COMMIT');
+                return false;
+            }
+            this.db.prepare('INSERT INTO nullifier_uses (action, nullifier, used_at) VALUES (?, ?, ?)').run(action, nullifier, timestamp);
+            this.db.exec('COMMIT');
+            return true;
+        } catch (error: unknown) {
+            this.db.exec('ROLLBACK');
+            throw error;
+        }
+    }
+
+    async release(action: string, nullifier: string, timestamp: number): Promise<void> {
+        this.db.prepare(`DELETE FROM nullifier_uses WHERE rowid = (
+            SELECT rowid FROM nullifier_uses WHERE action = ? AND nullifier = ? AND used_at = ? LIMIT 1
+        )`).run(action, nullifier, timestamp);
+    }
+}
+
+// --- Configuration --- //
+// **Server-Side Environment Variables**
+
+// Store backend: 'memory' (default) or 'file'. Use `setNullifierStore` for SQLite or custom stores.
+const NULLIFIER_STORE = serverConfig.NULLIFIER_STORE;
+// Path of the JSON file when NULLIFIER_STORE is 'file'.
+const NULLIFIER_STORE_PATH = serverConfig.NULLIFIER_STORE_PATH;
+// How many times a nullifier may be used per action. Defaults to 1.
+const NULLIFIER_MAX_USES = serverConfig.NULLIFIER_MAX_USES;
+// Window in seconds after which uses no longer count. Defaults to 86400; 0 = uses count forever.
+const NULLIFIER_WINDOW_SECONDS = serverConfig.NULLIFIER_WINDOW_SECONDS;
+
+let store: NullifierStore = NULLIFIER_STORE === 'file'
+    ? new JsonFileNullifierStore(NULLIFIER_STORE_PATH)
+    : new MemoryNullifierStore();
+
+let policy: NullifierPolicy = {
+    maxUses: NULLIFIER_MAX_USES,
+    windowMs: NULLIFIER_WINDOW_SECONDS > 0 ? NULLIFIER_WINDOW_SECONDS * 1000 : undefined,
+};
+
+/**
+ * Replaces the nullifier store (e.g. with a `SqliteNullifierStore`) and optionally the policy.
+ */
+export function setNullifierStore(newStore: NullifierStore, newPolicy?: NullifierPolicy): void {
+    store = newStore;
+    if (newPolicy) {
+        policy = newPolicy;
+    }
+}
+
+/**
+ * Reserves a use of the nullifier for this action before it is verified, so concurrent requests
+ * with the same proof cannot both get through.
+ * @returns A reservation to release if verification fails, or null if the policy's use limit is reached.
+ */
+export async function reserveNullifierUse(action: string, nullifier: string, now = Date.now()): Promise<{ release: () => Promise<void> } | null> {
+    const since = policy.windowMs !== undefined ? now - policy.windowMs : 0;
+    const currentStore = store;
+    if (!(await currentStore.tryConsume(action, nullifier, now, since, policy.maxUses))) {
+        return null;
+    }
+    return { release: () => currentStore.release(action, nullifier, now) };
+}
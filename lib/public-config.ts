@@ -0,0 +1,171 @@
+import { z } from 'zod';
+import type { CaptchaProvider } from '@/types';
+
+// Public (NEXT_PUBLIC_*) configuration, shared by the server config module (`lib/config`) and
+// client components.
+
+// Unset and empty variables are treated the same.
+const emptyAsUndefined = (value: unknown) => (value === '' ? undefined : value);
+const optionalString = z.preprocess(emptyAsUndefined, z.string().optional());
+
+export const captchaProviderSchema = z.enum(['recaptcha', 'hcaptcha', 'turnstile']);
+export const recaptchaVersionSchema = z.enum(['v2', 'v3']);
+export const primaryVerifierSchema = z.enum(['worldid', 'captcha']);
+
+/**
+ * Ordered, comma-separated list of CAPTCHA providers (e.g. "recaptcha,hcaptcha"). The first one is
+ * the default; widgets fall over to the next one if a provider's script or widget fails.
+ */
+export const captchaProviderListSchema = z.preprocess(
+    (value) => (typeof value === 'string' ? value.split(',').map((provider) => provider.trim()).filter(Boolean) : value),
+    z.array(captchaProviderSchema)
+        .refine((providers) => new Set(providers).size === providers.length, 'Providers must not repeat')
+        .transform((providers) => (providers.length > 0 ? providers : undefined))
+        .optional(),
+);
+
+/**
+ * NEXT_PUBLIC_* environment variables. These are inlined into client bundles at build time.
+ */
+export const publicEnvSchema = z.object({
+    NEXT_PUBLIC_WLD_APP_ID: optionalString,
+    NEXT_PUBLIC_WLD_ACTION_ID: optionalString,
+    NEXT_PUBLIC_CAPTCHA_PROVIDER: z.preprocess(emptyAsUndefined, captchaProviderSchema.default('recaptcha')),
+    NEXT_PUBLIC_CAPTCHA_PROVIDERS: captchaProviderListSchema,
+    NEXT_PUBLIC_RECAPTCHA_SITE_KEY: optionalString,
+    NEXT_PUBLIC_HCAPTCHA_SITE_KEY: optionalString,
+    NEXT_PUBLIC_TURNSTILE_SITE_KEY: optionalString,
+    NEXT_PUBLIC_RECAPTCHA_VERSION: z.preprocess(emptyAsUndefined, recaptchaVersionSchema.default('v2')),
+    NEXT_PUBLIC_RECAPTCHA_ACTION: z.preprocess(emptyAsUndefined, z.string().default('verify')),
+});
+
+export type PublicEnv = z.infer<typeof publicEnvSchema>;
+
+/**
+ * Everything the client needs to render the widgets. Contains no secrets.
+ * Served at runtime by `GET /api/verify-captcha/config`.
+ */
+export const publicConfigSchema = z.object({
+    appId: z.string().nullable(),
+    actionId: z.string().nullable(),
+    // Default provider, the first of `captchaProviders`
+    captchaProvider: captchaProviderSchema,
+    // Enabled providers in failover order
+    captchaProviders: z.array(captchaProviderSchema).min(1),
+    recaptchaSiteKey: z.string().nullable(),
+    hcaptchaSiteKey: z.string().nullable(),
+    turnstileSiteKey: z.string().nullable(),
+    recaptchaVersion: recaptchaVersionSchema,
+    recaptchaAction: z.string(),
+    primaryVerifier: primaryVerifierSchema,
+});
+
+export type PublicConfig = z.infer<typeof publicConfigSchema>;
+
+/**
+ * Derives the public configuration from validated NEXT_PUBLIC_* variables.
+ * PRIMARY_VERIFIER is server-side only, so `primaryVerifier` is the default here; the runtime
+ * config (`lib/config`) reports the actual value.
+ */
+export function toPublicConfig(env: PublicEnv): PublicConfig {
+    // The list, when set, takes precedence over the single provider
+    const captchaProviders = env.NEXT_PUBLIC_CAPTCHA_PROVIDERS ?? [env.NEXT_PUBLIC_CAPTCHA_PROVIDER];
+    return {
+        appId: env.NEXT_PUBLIC_WLD_APP_ID ?? null,
+        actionId: env.NEXT_PUBLIC_WLD_ACTION_ID ?? null,
+        captchaProvider: captchaProviders[0],
+        captchaProviders,
+        recaptchaSiteKey: env.NEXT_PUBLIC_RECAPTCHA_SITE_KEY ?? null,
+        hcaptchaSiteKey: env.NEXT_PUBLIC_HCAPTCHA_SITE_KEY ?? null,
+        turnstileSiteKey: env.NEXT_PUBLIC_TURNSTILE_SITE_KEY ?? null,
+        recaptchaVersion: env.NEXT_PUBLIC_RECAPTCHA_VERSION,
+        recaptchaAction: env.NEXT_PUBLIC_RECAPTCHA_ACTION,
+        primaryVerifier: 'worldid',
+    };
+}
+
+// --- Diagnostics --- //
+
+/**
+ * A configuration problem. Errors break verification; warnings disable optional features.
+ */
+export interface ConfigProblem {
+    severity: 'error' | 'warning';
+    // Environment variable at fault.
+    variable: string;
+    message: string;
+}
+
+// Site key variable of each CAPTCHA provider
+export const SITE_KEY_VARIABLES = {
+    recaptcha: 'NEXT_PUBLIC_RECAPTCHA_SITE_KEY',
+    hcaptcha: 'NEXT_PUBLIC_HCAPTCHA_SITE_KEY',
+    turnstile: 'NEXT_PUBLIC_TURNSTILE_SITE_KEY',
+} as const;
+
+/**
+ * Returns the site key of a CAPTCHA provider (the default one unless given), or null if it is not set.
+ */
+export function getCaptchaSiteKey(config: PublicConfig, provider: CaptchaProvider = config.captchaProvider): string | null {
+    const siteKeys = { recaptcha: config.recaptchaSiteKey, hcaptcha: config.hcaptchaSiteKey, turnstile: config.turnstileSiteKey };
+    return siteKeys[provider];
+}
+
+/**
+ * Checks that the values the widgets cannot work without are present.
+ */
+export function diagnosePublicConfig(config: PublicConfig): ConfigProblem[] {
+    const problems: ConfigProblem[] = [];
+    if (!config.appId) {
+        problems.push({ severity: 'error', variable: 'NEXT_PUBLIC_WLD_APP_ID', message: 'World ID app ID is not set.' });
+    }
+    if (!config.actionId) {
+        problems.push({ severity: 'error', variable: 'NEXT_PUBLIC_WLD_ACTION_ID', message: 'World ID action ID is not set.' });
+    }
+    for (const provider of config.captchaProviders) {
+        if (!getCaptchaSiteKey(config, provider)) {
+            problems.push({
+                severity: 'error',
+                variable: SITE_KEY_VARIABLES[provider],
+                message: `Site key for CAPTCHA provider "${provider}" is not set.`,
+            });
+        }
+    }
+    return problems;
+}
+
+/**
+ * Formats problems as one diagnostic message, one line per problem.
+ */
+export function formatConfigProblems(problems: ConfigProblem[]): string {
+    const errors = problems.filter((problem) => problem.severity === 'error').length;
+    const warnings = problems.length - errors;
+    return [
+        `Configuration problems (${errors} error(s), ${warnings} warning(s)):`,
+        ...problems.map((problem) => `  - [${problem.severity}] ${problem.variable}: ${problem.message}`),
+    ].join('\n');
+}
+
+// --- Build-Time Values --- //
+
+const parsedBuildTimeEnv = publicEnvSchema.safeParse({
+    NEXT_PUBLIC_WLD_APP_ID: process.env.NEXT_PUBLIC_WLD_APP_ID,
+    NEXT_PUBLIC_WLD_ACTION_ID: process.env.NEXT_PUBLIC_WLD_ACTION_ID,
+    NEXT_PUBLIC_CAPTCHA_PROVIDER: process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER,
+    NEXT_PUBLIC_CAPTCHA_PROVIDERS: process.env.NEXT_PUBLIC_CAPTCHA_PROVIDERS,
+    NEXT_PUBLIC_RECAPTCHA_SITE_KEY: process.env.NEXT_PUBLIC_RECAPTCHA_SITE_KEY,
+    NEXT_PUBLIC_HCAPTCHA_SITE_KEY: process.env.NEXT_PUBLIC_HCAPTCHA_SITE_KEY,
+    NEXT_PUBLIC_TURNSTILE_SITE_KEY: process.env.NEXT_PUBLIC_TURNSTILE_SITE_KEY,
+    NEXT_PUBLIC_RECAPTCHA_VERSION: process.env.NEXT_PUBLIC_RECAPTCHA_VERSION,
+    NEXT_PUBLIC_RECAPTCHA_ACTION: process.env.NEXT_PUBLIC_RECAPTCHA_ACTION,
+});
+
+/**
+ * Public configuration baked into the bundle at build time. Each variable above is referenced
+ * literally so Next.js can inline it into client code. Invalid values fall back to the defaults
+ * here; the server config (`lib/config`) reports them.
+ * Only used when the runtime config is not passed in and cannot be fetched.
+ */
+export const buildTimePublicConfig: PublicConfig = toPublicConfig(
+    parsedBuildTimeEnv.success ? parsedBuildTimeEnv.data : publicEnvSchema.parse({}),
+);
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { checkRateLimit, FailureLockout, SlidingWindowLimiter } from './rate-limit';
+import { serverConfig } from './config';
+
+describe('SlidingWindowLimiter', () => {
+    it('allows up to the limit per window, then reports when to retry', () => {
+        const limiter = new SlidingWindowLimiter(2, 1000);
+        expect(limiter.hit('a', 0).allowed).toBe(true);
+        expect(limiter.hit('a', 100).allowed).toBe(true);
+        expect(limiter.hit('a', 200)).toEqual({ allowed: false, retryAfterMs: 800, reason: 'rate limit exceeded' });
+    });
+
+    it('counts keys separately', () => {
+        const limiter = new SlidingWindowLimiter(1, 1000);
+        expect(limiter.hit('a', 0).allowed).toBe(true);
+        expect(limiter.hit('b', 0).allowed).toBe(true);
+        expect(limiter.hit('a', 1).allowed).toBe(false);
+    });
+
+    it('allows hits again once earlier ones leave the window', () => {
+        const limiter = new SlidingWindowLimiter(1, 1000);
+        expect(limiter.hit('a', 0).allowed).toBe(true);
+        expect(limiter.hit('a', 999).allowed).toBe(false);
+        expect(limiter.hit('a', 1000).allowed).toBe(true);
+    });
+});
+
+describe('FailureLockout', () => {
+    it('locks a key out once the threshold is reached, doubling up to the maximum', () => {
+        const lockout = new FailureLockout(2, 1000, 3000);
+        lockout.recordFailure('ip', 0);
+        expect(lockout.check('ip', 0).allowed).toBe(true);
+
+        lockout.recordFailure('ip', 0);
+        expect(lockout.check('ip', 500)).toEqual({ allowed: false, retryAfterMs: 500, reason: 'too many failed attempts' });
+        expect(lockout.check('ip', 1000).allowed).toBe(true);
+
+        lockout.recordFailure('ip', 1000);
+        expect(lockout.check('ip', 2999).allowed).toBe(false);
+        expect(lockout.check('ip', 3000).allowed).toBe(true);
+
+        lockout.recordFailure('ip', 3000);
+        // 4000ms capped at the 3000ms maximum
+        expect(lockout.check('ip', 5999).allowed).toBe(false);
+        expect(lockout.check('ip', 6000).allowed).toBe(true);
+    });
+
+    it('starts over after a success', () => {
+        const lockout = new FailureLockout(2, 1000, 3000);
+        lockout.recordFailure('ip', 0);
+        lockout.recordSuccess('ip');
+        lockout.recordFailure('ip', 0);
+        expect(lockout.check('ip', 0).allowed).toBe(true);
+    });
+});
+
+describe('checkRateLimit', () => {
+    it('throttles requests without a client IP in one shared bucket', () => {
+        for (let i = 0; i < serverConfig.RATE_LIMIT_IP_MAX; i++) {
+            expect(checkRateLimit(null, undefined).allowed).toBe(true);
+        }
+        expect(checkRateLimit(null, undefined).allowed).toBe(false);
+        expect(checkRateLimit('203.0.113.7', undefined).allowed).toBe(true);
+    });
+});
@@ -0,0 +1,172 @@
+import type { NextRequest } from 'next/server';
+import { serverConfig } from './config';
+import { logger } from './logger';
+
+// --- Configuration --- //
+// **Server-Side Environment Variables**
+
+// Requests allowed per client IP within the window. Defaults to 20 per 60 seconds.
+const RATE_LIMIT_IP_MAX = serverConfig.RATE_LIMIT_IP_MAX;
+const RATE_LIMIT_IP_WINDOW_SECONDS = serverConfig.RATE_LIMIT_IP_WINDOW_SECONDS;
+// Requests allowed per World ID nullifier within the window. Defaults to 5 per 60 seconds.
+const RATE_LIMIT_NULLIFIER_MAX = serverConfig.RATE_LIMIT_NULLIFIER_MAX;
+const RATE_LIMIT_NULLIFIER_WINDOW_SECONDS = serverConfig.RATE_LIMIT_NULLIFIER_WINDOW_SECONDS;
+// Consecutive failed verifications from one IP before it is locked out. Defaults to 5.
+const RATE_LIMIT_FAILURE_THRESHOLD = serverConfig.RATE_LIMIT_FAILURE_THRESHOLD;
+// First lockout duration; doubles with each further failure up to the maximum. Defaults to 60s / 1h.
+const RATE_LIMIT_LOCKOUT_SECONDS = serverConfig.RATE_LIMIT_LOCKOUT_SECONDS;
+const RATE_LIMIT_MAX_LOCKOUT_SECONDS = serverConfig.RATE_LIMIT_MAX_LOCKOUT_SECONDS;
+// Reverse proxies in front of the app that append to X-Forwarded-For. Defaults to 0 (platform IP only).
+const TRUSTED_PROXY_HOPS = serverConfig.TRUSTED_PROXY_HOPS;
+
+/**
+ * Result of a rate-limit check. `retryAfterMs` is set when the request is not allowed.
+ */
+export type RateLimitDecision = { allowed: true } | { allowed: false; retryAfterMs: number; reason: string };
+
+/**
+ * Sliding-window request counter. Keeps the timestamps of recent hits per key in memory.
+ * Keys without hits in the window are evicted, at most once per window.
+ */
+export class SlidingWindowLimiter {
+    private hits = new Map<string, number[]>();
+    private lastPrunedAt = 0;
+
+    constructor(private max: number, private windowMs: number) { }
+
+    /**
+     * Counts a hit for `key` if it is under the limit.
+     */
+    hit(key: string, now = Date.now()): RateLimitDecision {
+        if (now - this.lastPrunedAt >= this.windowMs) {
+            this.prune(now);
+        }
+        const recent = (this.hits.get(key) ?? []).filter((t) => t > now - this.windowMs);
+        if (recent.length >= this.max) {
+            this.hits.set(key, recent);
+            return { allowed: false, retryAfterMs: recent[0] + this.windowMs - now, reason: 'rate limit exceeded' };
+        }
+        recent.push(now);
+        this.hits.set(key, recent);
+        return { allowed: true };
+    }
+
+    private prune(now: number): void {
+        this.lastPrunedAt = now;
+        for (const [key, timestamps] of this.hits) {
+            if (timestamps[timestamps.length - 1] <= now - this.windowMs) {
+                this.hits.delete(key);
+            }
+        }
+    }
+}
+
+/**
+ * Tracks consecutive failures per key and locks the key out with exponential backoff
+ * once the threshold is reached. Keys are forgotten once unlocked and idle for `maxMs`.
+ */
+export class FailureLockout {
+    private state = new Map<string, { failures: number; lockedUntil: number; lastFailureAt: number }>();
+    private lastPrunedAt = 0;
+
+    constructor(private threshold: number, private baseMs: number, private maxMs: number) { }
+
+    check(key: string, now = Date.now()): RateLimitDecision {
+        const entry = this.state.get(key);
+        if (entry && entry.lockedUntil > now) {
+            return { allowed: false, retryAfterMs: entry.lockedUntil - now, reason: 'too many failed attempts' };
+        }
+        return { allowed: true };
+    }
+
+    recordFailure(key: string, now = Date.now()): void {
+        if (now - this.lastPrunedAt >= this.baseMs) {
+            this.prune(now);
+        }
+        const entry = this.state.get(key) ?? { failures: 0, lockedUntil: 0, lastFailureAt: now };
+        entry.failures += 1;
+        entry.lastFailureAt = now;
+        if (entry.failures >= this.threshold) {
+            const lockMs = Math.min(this.baseMs * 2 ** (entry.failures - this.threshold), this.maxMs);
+            entry.lockedUntil = now + lockMs;
+        }
+        this.state.set(key, entry);
+    }
+
+    recordSuccess(key: string): void {
+        this.state.delete(key);
+    }
+
+    private prune(now: number): void {
+        this.lastPrunedAt = now;
+        for (const [key, entry] of this.state) {
+            if (entry.lockedUntil <= now && entry.lastFailureAt <= now - this.maxMs) {
+                this.state.delete(key);
+            }
+        }
+    }
+}
+
+// Per-IP limit key of requests whose client IP cannot be determined; they share one bucket.
+const UNKNOWN_IP_KEY = 'unknown';
+// Set once a request without a client IP has been reported.
+let warnedUnknownIp = false;
+
+const ipLimiter = new SlidingWindowLimiter(RATE_LIMIT_IP_MAX, RATE_LIMIT_IP_WINDOW_SECONDS * 1000);
+const nullifierLimiter = new SlidingWindowLimiter(RATE_LIMIT_NULLIFIER_MAX, RATE_LIMIT_NULLIFIER_WINDOW_SECONDS * 1000);
+const ipLockout = new FailureLockout(RATE_LIMIT_FAILURE_THRESHOLD, RATE_LIMIT_LOCKOUT_SECONDS * 1000, RATE_LIMIT_MAX_LOCKOUT_SECONDS * 1000);
+
+/**
+ * Client IP used for rate limiting, `remoteip` and the audit log. With TRUSTED_PROXY_HOPS set, the
+ * `X-Forwarded-For` entry that many hops from the right (added by the closest trusted proxy); entries
+ * to its left are client-controlled and ignored. Otherwise the platform-provided IP.
+ */
+export function getClientIp(request: NextRequest): string | null {
+    if (TRUSTED_PROXY_HOPS > 0) {
+        const forwarded = (request.headers.get('x-forwarded-for') ?? '').split(',').map((entry) => entry.trim()).filter(Boolean);
+        // Fewer entries than proxies means the request bypassed one; fall through to the platform IP
+        if (forwarded.length >= TRUSTED_PROXY_HOPS) {
+            return forwarded[forwarded.length - TRUSTED_PROXY_HOPS];
+        }
+    }
+    return request.ip ?? null;
+}
+
+/**
+ * Checks (and counts) a verification attempt against the IP lockout and the per-IP and per-nullifier windows.
+ * Requests without a client IP share one per-IP window, so they are never unthrottled.
+ */
+export function checkRateLimit(ip: string | null, nullifier: string | undefined): RateLimitDecision {
+    if (ip) {
+        const lockout = ipLockout.check(ip);
+        if (!lockout.allowed) {
+            return lockout;
+        }
+    } else if (!warnedUnknownIp) {
+        warnedUnknownIp = true;
+        logger.warn('Client IP unknown: requests share one rate-limit bucket. Set TRUSTED_PROXY_HOPS when running behind a reverse proxy.');
+    }
+    const byIp = ipLimiter.hit(ip ?? UNKNOWN_IP_KEY);
+    if (!byIp.allowed) {
+        return byIp;
+    }
+    if (nullifier) {
+        return nullifierLimiter.hit(nullifier);
+    }
+    return { allowed: true };
+}
+
+/**
+ * Feeds a verification outcome into the progressive lockout for the client IP.
+ */
+export function recordVerificationOutcome(ip: string | null, success: boolean): void {
+    // Not for the shared bucket: one client's failures would lock everyone else out
+    if (!ip) {
+        return;
+    }
+    if (success) {
+        ipLockout.recordSuccess(ip);
+    } else {
+        ipLockout.recordFailure(ip);
+    }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getHumanSession, verifySessionToken, SESSION_COOKIE_NAME } from './session';
+import type { HumanSessionClaims } from './session';
+import { meetsAssuranceLevel } from './assurance';
+import type { AssuranceLevel } from './assurance';
+import { VerificationErrorCode } from './verification-errors';
+import { VERIFICATION_API_VERSION, verificationFailureSchema } from './verification-schema';
+
+/**
+ * Minimum verification method a session must carry.
+ * 'captcha' accepts any successful method; 'world_id' requires a World ID verification.
+ */
+export type MinMethod = 'captcha' | 'world_id';
+
+export interface RequireHumanOptions {
+    // Defaults to 'captcha' (any verified session).
+    minMethod?: MinMethod;
+    // Minimum assurance level (see lib/assurance), e.g. 'world_id_orb'. Takes precedence over `minMethod`.
+    minLevel?: AssuranceLevel;
+    // Policy action (see lib/verification-policy) whose rule the session must have met, e.g. 'delete-account'.
+    // Sessions from the default rule, or for another action, are rejected.
+    action?: string;
+}
+
+// Assurance level each `minMethod` stands for.
+const METHOD_LEVEL: Record<MinMethod, AssuranceLevel> = { captcha: 'captcha', world_id: 'world_id_device' };
+
+interface SessionFailure {
+    status: 401 | 403;
+    code: VerificationErrorCode;
+    error: string;
+    requiredLevel: AssuranceLevel;
+}
+
+/**
+ * Checks session claims against the options.
+ * @returns null if the session is acceptable, otherwise the failure with the matching HTTP status and code.
+ */
+function checkSession(claims: HumanSessionClaims | null, options: RequireHumanOptions): SessionFailure | null {
+    const requiredLevel = options.minLevel ?? METHOD_LEVEL[options.minMethod ?? 'captcha'];
+    if (!claims) {
+        return { status: 401, code: VerificationErrorCode.SessionRequired, error: 'Human verification required.', requiredLevel };
+    }
+    if (!meetsAssuranceLevel(claims.assurance, requiredLevel)) {
+        // The client can step up the existing session (e.g. `<WidCaptcha requireLevel={required_level} />`)
+        return { status: 403, code: VerificationErrorCode.InsufficientAssurance, error: `Verification level "${claims.assurance}" is not sufficient. Required: ${requiredLevel}.`, requiredLevel };
+    }
+    if (options.action !== undefined && claims.action !== options.action) {
+        // The client verifies again with `<WidCaptcha action={action} />`
+        return { status: 403, code: VerificationErrorCode.ActionRequired, error: `Verification for action "${options.action}" required.`, requiredLevel };
+    }
+    return null;
+}
+
+/**
+ * Error thrown by `requireHumanAction` when the caller has no acceptable human session.
+ */
+export class HumanVerificationError extends Error {
+    status: 401 | 403;
+    // 'session_required', 'insufficient_assurance' or 'action_required'
+    code: VerificationErrorCode;
+    // Assurance level the action requires; verify (or step up) to at least this level.
+    requiredLevel: AssuranceLevel;
+
+    constructor(message: string, status: 401 | 403, code: VerificationErrorCode, requiredLevel: AssuranceLevel = 'captcha') {
+        super(message);
+        this.name = 'HumanVerificationError';
+        this.status = status;
+        this.code = code;
+        this.requiredLevel = requiredLevel;
+    }
+}
+
+/**
+ * Wraps a Next.js route handler so it only runs for callers with a valid human session.
+ * Unverified callers get a 401, insufficient sessions a 403, both as failure responses of the shared schema
+ * (`verificationFailureSchema`, like /api/verify-captcha) with a `code`, the caller's `assurance_level`
+ * and the `required_level`.
+ *
+ * @example
+ * export const POST = requireHuman(async (request, context, human) => {
+ *     return NextResponse.json({ verifiedWith: human.method });
+ * }, { minMethod: 'world_id' });
+ */
+export function requireHuman<C = unknown>(
+    handler: (request: NextRequest, context: C, human: HumanSessionClaims) => Response | Promise<Response>,
+    options: RequireHumanOptions = {},
+) {
+    return async (request: NextRequest, context: C): Promise<Response> => {
+        const claims = await getHumanSession(request);
+        const failure = checkSession(claims, options);
+        if (failure) {
+            return NextResponse.json(verificationFailureSchema.parse({
+                version: VERIFICATION_API_VERSION,
+                success: false,
+                error: failure.error,
+                code: failure.code,
+                method: claims?.method,
+                attempted_methods: [],
+                assurance_level: claims?.assurance ?? 'none',
+                required_level: failure.requiredLevel,
+                required_action: options.action,
+            }), { status: failure.status });
+        }
+        return handler(request, context, claims!);
+    };
+}
+
+/**
+ * Wraps a Next.js server action (including actions invoked from `<form action={...}>`) so it only runs
+ * for callers with a valid human session. The session is read from the session cookie.
+ * Throws a `HumanVerificationError` when the session is missing or insufficient.
+ *
+ * @example
+ * export const submitComment = requireHumanAction(async (human, formData: FormData) => { ... });
+ */
+export function requireHumanAction<A extends unknown[], R>(
+    action: (human: HumanSessionClaims, ...args: A) => Promise<R>,
+    options: RequireHumanOptions = {},
+) {
+    return async (...args: A): Promise<R> => {
+        const claims = await verifySessionToken(cookies().get(SESSION_COOKIE_NAME)?.value);
+        const failure = checkSession(claims, options);
+        if (failure) {
+            throw new HumanVerificationError(failure.error, failure.status, failure.code, failure.requiredLevel);
+        }
+        return action(claims!, ...args);
+    };
+}
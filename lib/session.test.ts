@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createProgressToken, createSessionToken, verifySessionToken } from './session';
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('session tokens', () => {
+    it('verifies the tokens it issues', async () => {
+        const { token, claims } = await createSessionToken({ method: 'world_id', level: 'orb', assurance: 'world_id_orb', action: 'vote' });
+        await expect(verifySessionToken(token)).resolves.toEqual(claims);
+        expect(claims.exp).toBeGreaterThan(claims.iat);
+    });
+
+    it('rejects missing, malformed and tampered tokens', async () => {
+        const { token } = await createSessionToken({ method: 'recaptcha', level: null, assurance: 'captcha', action: null });
+        const [header, , signature] = token.split('.');
+        const forgedPayload = Buffer.from(JSON.stringify({ method: 'world_id', level: 'orb', assurance: 'world_id_orb', action: null, iat: 0, exp: 9999999999 })).toString('base64url');
+
+        await expect(verifySessionToken(undefined)).resolves.toBeNull();
+        await expect(verifySessionToken('not-a-token')).resolves.toBeNull();
+        await expect(verifySessionToken(`${header}.${forgedPayload}.${signature}`)).resolves.toBeNull();
+        await expect(verifySessionToken(`${token.slice(0, -2)}xx`)).resolves.toBeNull();
+    });
+
+    it('rejects expired tokens', async () => {
+        vi.useFakeTimers();
+        const { token, claims } = await createSessionToken({ method: 'recaptcha', level: null, assurance: 'captcha', action: null });
+        vi.setSystemTime((claims.exp + 1) * 1000);
+        await expect(verifySessionToken(token)).resolves.toBeNull();
+    });
+
+    it('never accepts a progress token as a session', async () => {
+        const progress = await createProgressToken({ action: null, methods: ['world_id'], level: 'orb' });
+        expect(progress).not.toBeNull();
+        await expect(verifySessionToken(progress?.token)).resolves.toBeNull();
+    });
+});
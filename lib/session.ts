@@ -0,0 +1,237 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import { serverConfig } from './config';
+import { getAssuranceLevel } from './assurance';
+import type { AssuranceLevel } from './assurance';
+
+// --- Configuration --- //
+// **Server-Side Environment Variables**
+
+// Secret used to sign human-session tokens (HS256). Sessions are not issued when unset.
+const SESSION_SECRET = serverConfig.SESSION_SECRET;
+// Lifetime of a session in seconds. Defaults to 1 hour.
+const SESSION_TTL_SECONDS = serverConfig.SESSION_TTL_SECONDS;
+// Optional: Also return the signed token in the JSON body (for non-browser clients). Defaults to false.
+export const SESSION_TOKEN_IN_BODY = serverConfig.SESSION_TOKEN_IN_BODY;
+
+// Name of the HttpOnly cookie holding the session token.
+export const SESSION_COOKIE_NAME = 'wid_session';
+// Name of the HttpOnly cookie holding the progress of a multi-step verification (see lib/verification-policy).
+export const PROGRESS_COOKIE_NAME = 'wid_progress';
+// Time allowed to complete the remaining steps of a multi-step verification, in seconds.
+const PROGRESS_TTL_SECONDS = 600;
+
+/**
+ * Claims carried by a human-session token.
+ */
+export interface HumanSessionClaims {
+    // Verification method that succeeded (e.g. 'world_id', 'recaptcha').
+    method: string;
+    // World ID verification level ('orb', 'device'), or null for CAPTCHA methods.
+    level: string | null;
+    // Strongest verification of the session (see lib/assurance). Raised when the session is stepped up.
+    assurance: AssuranceLevel;
+    // Policy action whose rule the verification met (see lib/verification-policy), or null for the
+    // default rule or when no policy is configured.
+    action: string | null;
+    // Issued-at and expiry, in seconds since the epoch.
+    iat: number;
+    exp: number;
+}
+
+/**
+ * Claims carried by a progress token: the steps of a verification policy completed so far.
+ * Signed with SESSION_SECRET like sessions, but never accepted as one.
+ */
+export interface VerificationProgressClaims {
+    kind: 'progress';
+    // Policy action the steps were completed for, or null for the default rule.
+    action: string | null;
+    // Methods verified so far (e.g. ['world_id']).
+    methods: string[];
+    // World ID verification level, if World ID was one of the steps.
+    level: string | null;
+    iat: number;
+    exp: number;
+}
+
+// --- Encoding Helpers --- //
+// Web Crypto and btoa/atob are used so tokens can also be checked from the Edge runtime (middleware).
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach((byte) => { binary += String.fromCharCode(byte); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function sign(data: string, secret: string): Promise<string> {
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(data));
+    return base64UrlEncode(new Uint8Array(signature));
+}
+
+// Constant-time string comparison to avoid leaking signature bytes through timing.
+function safeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) {
+        return false;
+    }
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return diff === 0;
+}
+
+// Signs claims as a JWT (HS256).
+async function encodeToken(claims: object, secret: string): Promise<string> {
+    const header = base64UrlEncode(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+    const payload = base64UrlEncode(encoder.encode(JSON.stringify(claims)));
+    const signature = await sign(`${header}.${payload}`, secret);
+    return `${header}.${payload}.${signature}`;
+}
+
+// Returns the claims of a token with a valid signature that has not expired, otherwise null.
+async function decodeToken(token: string | null | undefined): Promise<Record<string, unknown> | null> {
+    if (!token || !SESSION_SECRET) {
+        return null;
+    }
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+        return null;
+    }
+    const [header, payload, signature] = parts;
+
+    try {
+        const expected = await sign(`${header}.${payload}`, SESSION_SECRET);
+        if (!safeEqual(signature, expected)) {
+            return null;
+        }
+        const claims = JSON.parse(decoder.decode(base64UrlDecode(payload)));
+        if (typeof claims.exp !== 'number' || claims.exp <= Math.floor(Date.now() / 1000)) {
+            return null;
+        }
+        return claims;
+    } catch {
+        // Malformed base64 or JSON
+        return null;
+    }
+}
+
+// --- Token API --- //
+
+/**
+ * Returns true if a session secret is configured and sessions can be issued.
+ */
+export function isSessionConfigured(): boolean {
+    return !!SESSION_SECRET;
+}
+
+/**
+ * Creates a signed session token (JWT, HS256) for a successful verification.
+ * @param claims - The verification method and level to record.
+ * @returns The token and its claims (including issued-at and expiry).
+ */
+export async function createSessionToken(claims: Pick<HumanSessionClaims, 'method' | 'level' | 'assurance' | 'action'>): Promise<{ token: string; claims: HumanSessionClaims }> {
+    if (!SESSION_SECRET) {
+        throw new Error('Session secret (SESSION_SECRET) not configured on the server.');
+    }
+    const iat = Math.floor(Date.now() / 1000);
+    const fullClaims: HumanSessionClaims = { ...claims, iat, exp: iat + SESSION_TTL_SECONDS };
+    return { token: await encodeToken(fullClaims, SESSION_SECRET), claims: fullClaims };
+}
+
+/**
+ * Validates a session token's signature and expiry.
+ * @param token - The token from the session cookie or Authorization header.
+ * @returns The claims if the token is valid, otherwise null.
+ */
+export async function verifySessionToken(token: string | null | undefined): Promise<HumanSessionClaims | null> {
+    const claims = await decodeToken(token);
+    // Progress tokens share the secret but only prove part of a verification
+    if (!claims || 'kind' in claims) {
+        return null;
+    }
+    const session = claims as unknown as HumanSessionClaims;
+    // Sessions issued before assurance levels and actions were recorded
+    return { ...session, assurance: session.assurance ?? getAssuranceLevel(session.method, session.level), action: session.action ?? null };
+}
+
+/**
+ * Reads and validates the human session of an incoming request.
+ * Looks at the session cookie first, then an `Authorization: Bearer <token>` header
+ * (also when the cookie is stale or invalid).
+ * @returns The session claims, or null if the caller has no valid session.
+ */
+export async function getHumanSession(request: NextRequest): Promise<HumanSessionClaims | null> {
+    const fromCookie = await verifySessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+    if (fromCookie) {
+        return fromCookie;
+    }
+    const authHeader = request.headers.get('authorization');
+    const bearerToken = authHeader?.startsWith('Bearer ') ? authHeader.slice('Bearer '.length) : undefined;
+    return verifySessionToken(bearerToken);
+}
+
+/**
+ * Creates a signed progress token recording the completed steps of a multi-step verification.
+ * @returns The token and its claims, or null if SESSION_SECRET is not configured.
+ */
+export async function createProgressToken(progress: Pick<VerificationProgressClaims, 'action' | 'methods' | 'level'>): Promise<{ token: string; claims: VerificationProgressClaims } | null> {
+    if (!SESSION_SECRET) {
+        return null;
+    }
+    const iat = Math.floor(Date.now() / 1000);
+    const claims: VerificationProgressClaims = { kind: 'progress', ...progress, iat, exp: iat + PROGRESS_TTL_SECONDS };
+    return { token: await encodeToken(claims, SESSION_SECRET), claims };
+}
+
+/**
+ * Reads the verification progress of an incoming request from the progress cookie.
+ * @param action - Policy action of the request; progress made for another action is ignored.
+ * @returns The progress claims, or null if there is no valid progress for this action.
+ */
+export async function getVerificationProgress(request: NextRequest, action: string | null): Promise<VerificationProgressClaims | null> {
+    const claims = await decodeToken(request.cookies.get(PROGRESS_COOKIE_NAME)?.value);
+    if (!claims || claims.kind !== 'progress' || claims.action !== action) {
+        return null;
+    }
+    return claims as unknown as VerificationProgressClaims;
+}
+
+/**
+ * Attaches verification progress to a response as an HttpOnly cookie, or removes it when `progress` is null.
+ */
+export function setProgressCookie(response: NextResponse, progress: { token: string; claims: VerificationProgressClaims } | null): void {
+    if (!progress) {
+        response.cookies.delete(PROGRESS_COOKIE_NAME);
+        return;
+    }
+    response.cookies.set(PROGRESS_COOKIE_NAME, progress.token, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+        expires: new Date(progress.claims.exp * 1000),
+    });
+}
+
+/**
+ * Attaches the session token to a response as an HttpOnly cookie.
+ */
+export function setSessionCookie(response: NextResponse, token: string, claims: HumanSessionClaims): void {
+    response.cookies.set(SESSION_COOKIE_NAME, token, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+        expires: new Date(claims.exp * 1000),
+    });
+}
@@ -0,0 +1,15 @@
+/**
+ * Minimal synchronous SQLite interface used by the SQLite-backed stores.
+ * Satisfied by `better-sqlite3` and Node's built-in `node:sqlite` (`DatabaseSync`),
+ * so no driver is bundled: pass in an open database from whichever one your deployment uses.
+ */
+export interface SqliteDatabase {
+    exec(sql: string): unknown;
+    prepare(sql: string): SqliteStatement;
+}
+
+export interface SqliteStatement {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createSessionToken } from './session';
+import { CaptchaTokenCache } from './token-cache';
+import type { CachedOutcome } from './token-cache';
+import { VERIFICATION_API_VERSION } from './verification-schema';
+
+const outcome: CachedOutcome = {
+    status: 200,
+    body: { version: VERIFICATION_API_VERSION, success: true, method: 'recaptcha', message: 'ok', attempted_methods: ['recaptcha'] },
+};
+
+describe('CaptchaTokenCache', () => {
+    it('verifies a new token and replays its outcome for the same idempotency key', async () => {
+        const cache = new CaptchaTokenCache(60_000);
+        const verify = vi.fn(async () => outcome);
+
+        await expect(cache.consume('token', 'key-1', verify)).resolves.toEqual({ reused: false, outcome, replayed: false });
+        await expect(cache.consume('token', 'key-1', verify)).resolves.toEqual({ reused: false, outcome, replayed: true });
+        expect(verify).toHaveBeenCalledTimes(1);
+    });
+
+    it('replays the session issued with the outcome instead of signing a new one', async () => {
+        const cache = new CaptchaTokenCache(60_000);
+        const verify = vi.fn(async (): Promise<CachedOutcome> => ({
+            ...outcome,
+            issuedSession: await createSessionToken({ method: 'recaptcha', level: null, assurance: 'captcha', action: null }),
+        }));
+
+        const first = await cache.consume('token', 'key-1', verify);
+        const retry = await cache.consume('token', 'key-1', verify);
+        expect(first.reused || retry.reused).toBe(false);
+        if (!first.reused && !retry.reused) {
+            expect(retry.outcome.issuedSession?.token).toBe(first.outcome.issuedSession?.token);
+        }
+        expect(verify).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects a repeated token without the same idempotency key', async () => {
+        const cache = new CaptchaTokenCache(60_000);
+        await cache.consume('token', 'key-1', async () => outcome);
+
+        await expect(cache.consume('token', 'key-2', async () => outcome)).resolves.toEqual({ reused: true });
+        await expect(cache.consume('token', null, async () => outcome)).resolves.toEqual({ reused: true });
+    });
+
+    it('shares a pending verification with concurrent retries', async () => {
+        const cache = new CaptchaTokenCache(60_000);
+        const verify = vi.fn(() => new Promise<CachedOutcome>((resolve) => setTimeout(() => resolve(outcome), 10)));
+
+        const [first, retry] = await Promise.all([cache.consume('token', 'key-1', verify), cache.consume('token', 'key-1', verify)]);
+        expect(first).toEqual({ reused: false, outcome, replayed: false });
+        expect(retry).toEqual({ reused: false, outcome, replayed: true });
+        expect(verify).toHaveBeenCalledTimes(1);
+    });
+
+    it('forgets a token whose verification threw', async () => {
+        const cache = new CaptchaTokenCache(60_000);
+        await expect(cache.consume('token', null, async () => {
+            throw new Error('network');
+        })).rejects.toThrow('network');
+
+        await expect(cache.consume('token', null, async () => outcome)).resolves.toMatchObject({ reused: false, replayed: false });
+    });
+
+    it('forgets tokens after the TTL', async () => {
+        vi.useFakeTimers();
+        try {
+            const cache = new CaptchaTokenCache(1000);
+            await cache.consume('token', null, async () => outcome);
+            vi.advanceTimersByTime(1000);
+            await expect(cache.consume('token', null, async () => outcome)).resolves.toMatchObject({ reused: false });
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+});
@@ -0,0 +1,92 @@
+import { createHash } from 'crypto';
+import { serverConfig } from './config';
+import type { VerificationApiResponse } from './verification-schema';
+import type { AssuranceLevel } from './assurance';
+import type { HumanSessionClaims, VerificationProgressClaims } from './session';
+
+// --- Configuration --- //
+// **Server-Side Environment Variables**
+
+// How long a CAPTCHA token fingerprint is remembered, in seconds. Should cover the provider's token
+// lifetime (reCAPTCHA/hCaptcha: ~2 minutes, Turnstile: 5 minutes). Defaults to 300.
+const CAPTCHA_TOKEN_CACHE_TTL_SECONDS = serverConfig.CAPTCHA_TOKEN_CACHE_TTL_SECONDS;
+
+/**
+ * Outcome of a verification request, cached so idempotent retries get the same answer.
+ */
+export interface CachedOutcome {
+    status: number;
+    body: VerificationApiResponse;
+    // Set for successful outcomes: the claims of the session to issue.
+    session?: { method: string; level: string | null; assurance: AssuranceLevel; action: string | null };
+    // Set when a verification policy needs further steps: the steps completed so far (see lib/verification-policy).
+    progress?: { action: string | null; methods: string[]; level: string | null };
+    // Signed once before the outcome is cached; idempotent retries return the same tokens instead of new ones.
+    issuedSession?: { token: string; claims: HumanSessionClaims };
+    // Null when SESSION_SECRET is not configured.
+    issuedProgress?: { token: string; claims: VerificationProgressClaims } | null;
+}
+
+interface CacheEntry {
+    idempotencyKey: string | null;
+    // Pending while the first request is still verifying, so concurrent retries share its result.
+    outcome: Promise<CachedOutcome>;
+    expiresAt: number;
+}
+
+/**
+ * Remembers CAPTCHA tokens (by SHA-256 fingerprint, never the raw token) so each token is only
+ * forwarded to siteverify once. In-process only; use a shared store for multi-instance deployments.
+ */
+export class CaptchaTokenCache {
+    private entries = new Map<string, CacheEntry>();
+
+    constructor(private ttlMs: number) { }
+
+    static fingerprint(token: string): string {
+        return createHash('sha256').update(token).digest('hex');
+    }
+
+    private prune(now: number): void {
+        this.entries.forEach((entry, key) => {
+            if (entry.expiresAt <= now) {
+                this.entries.delete(key);
+            }
+        });
+    }
+
+    /**
+     * Runs `verify` for a token that has not been seen before and caches its outcome.
+     * A repeat of the same token returns the cached outcome if it carries the same idempotency key,
+     * otherwise `{ reused: true }`.
+     */
+    async consume(
+        token: string,
+        idempotencyKey: string | null,
+        verify: () => Promise<CachedOutcome>,
+    ): Promise<{ reused: false; outcome: CachedOutcome; replayed: boolean } | { reused: true }> {
+        const now = Date.now();
+        this.prune(now);
+
+        const key = CaptchaTokenCache.fingerprint(token);
+        const existing = this.entries.get(key);
+        if (existing) {
+            if (idempotencyKey && existing.idempotencyKey === idempotencyKey) {
+                return { reused: false, outcome: await existing.outcome, replayed: true };
+            }
+            return { reused: true };
+        }
+
+        const outcome = verify();
+        this.entries.set(key, { idempotencyKey, outcome, expiresAt: now + this.ttlMs });
+        try {
+            return { reused: false, outcome: await outcome, replayed: false };
+        } catch (error) {
+            // Unexpected errors are not a verdict on the token; allow it to be tried again
+            this.entries.delete(key);
+            throw error;
+        }
+    }
+}
+
+export const captchaTokenCache = new CaptchaTokenCache(CAPTCHA_TOKEN_CACHE_TTL_SECONDS * 1000);
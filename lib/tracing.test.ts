@@ -0,0 +1,93 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { context, propagation, SpanStatusCode } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { AlwaysOffSampler, AlwaysOnSampler, BasicTracerProvider, InMemorySpanExporter, ParentBasedSampler, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import type { Sampler } from '@opentelemetry/sdk-trace-base';
+import { setTracing, withSpan } from './tracing';
+
+const TRACE_ID = '0af7651916cd43dd8448eb211c80319c';
+const exporter = new InMemorySpanExporter();
+
+function enableTracing(sampler: Sampler, trustIncomingSampling?: boolean): void {
+    const provider = new BasicTracerProvider({ sampler, spanProcessors: [new SimpleSpanProcessor(exporter)] });
+    setTracing({
+        tracer: provider.getTracer('wid-captcha-test'),
+        extractContext: (headers) => propagation.extract(context.active(), headers),
+        trustIncomingSampling,
+    });
+}
+
+function traceparentHeaders(flags: string): Headers {
+    return new Headers({ traceparent: `00-${TRACE_ID}-b7ad6b7169203331-${flags}` });
+}
+
+beforeAll(() => {
+    context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+    propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+});
+
+afterEach(() => {
+    setTracing(null);
+    exporter.reset();
+});
+
+describe('withSpan', () => {
+    it('runs the function without a tracer', async () => {
+        await expect(withSpan('verify', {}, async () => 'ok')).resolves.toBe('ok');
+        expect(exporter.getFinishedSpans()).toHaveLength(0);
+    });
+
+    it('records a span with its attributes, leaving out undefined ones', async () => {
+        enableTracing(new AlwaysOnSampler());
+        await withSpan('verify', { method: 'world_id', reason: undefined }, async () => undefined);
+
+        const [span] = exporter.getFinishedSpans();
+        expect(span.name).toBe('verify');
+        expect(span.attributes).toEqual({ method: 'world_id' });
+    });
+
+    it('makes nested spans children of the enclosing span', async () => {
+        enableTracing(new AlwaysOnSampler());
+        await withSpan('request', {}, () => withSpan('upstream', {}, async () => undefined));
+
+        const [child, parent] = exporter.getFinishedSpans();
+        expect(child.name).toBe('upstream');
+        expect(child.parentSpanId).toBe(parent.spanContext().spanId);
+        expect(child.spanContext().traceId).toBe(parent.spanContext().traceId);
+    });
+
+    it('marks the span as errored and rethrows when the function throws', async () => {
+        enableTracing(new AlwaysOnSampler());
+        await expect(withSpan('verify', {}, async () => {
+            throw new Error('upstream down');
+        })).rejects.toThrow('upstream down');
+
+        const [span] = exporter.getFinishedSpans();
+        expect(span.status).toEqual({ code: SpanStatusCode.ERROR, message: 'upstream down' });
+        expect(span.events.map((event) => event.name)).toContain('exception');
+    });
+
+    it('continues the trace ID of an incoming traceparent', async () => {
+        enableTracing(new ParentBasedSampler({ root: new AlwaysOnSampler(), remoteParentNotSampled: new AlwaysOnSampler() }));
+        await withSpan('request', {}, async () => undefined, traceparentHeaders('01'));
+
+        const [span] = exporter.getFinishedSpans();
+        expect(span.spanContext().traceId).toBe(TRACE_ID);
+        expect(span.parentSpanId).toBe('b7ad6b7169203331');
+    });
+
+    it('ignores the sampled flag of an incoming traceparent', async () => {
+        enableTracing(new ParentBasedSampler({ root: new AlwaysOffSampler() }));
+        await withSpan('request', {}, async () => undefined, traceparentHeaders('01'));
+
+        expect(exporter.getFinishedSpans()).toHaveLength(0);
+    });
+
+    it('honours the sampled flag with trustIncomingSampling', async () => {
+        enableTracing(new ParentBasedSampler({ root: new AlwaysOffSampler() }), true);
+        await withSpan('request', {}, async () => undefined, traceparentHeaders('01'));
+
+        expect(exporter.getFinishedSpans()).toHaveLength(1);
+    });
+});
@@ -0,0 +1,99 @@
+// Optional OpenTelemetry tracing for the verification pipeline.
+// No tracing dependency is bundled: the interfaces below are the subset of `@opentelemetry/api`
+// that is used here, so a real tracer can be passed to `setTracing` as-is. Spans are no-ops until then.
+
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+// Matches `SpanStatusCode` from `@opentelemetry/api`.
+export const SPAN_STATUS_OK = 1;
+export const SPAN_STATUS_ERROR = 2;
+
+export interface TraceSpan {
+    setAttribute(key: string, value: SpanAttributeValue): unknown;
+    setStatus(status: { code: number; message?: string }): unknown;
+    recordException(exception: Error | string): unknown;
+    end(): void;
+}
+
+export interface TraceTracer {
+    startActiveSpan<F extends (span: TraceSpan) => unknown>(name: string, options: { attributes?: SpanAttributes }, context: unknown, fn: F): ReturnType<F>;
+}
+
+export interface TracingOptions {
+    // e.g. `trace.getTracer('wid-captcha')`.
+    tracer: TraceTracer;
+    // Turns incoming request headers into a parent context,
+    // e.g. `(headers) => propagation.extract(context.active(), headers)`.
+    extractContext?: (headers: Record<string, string>) => unknown;
+    // Honour the sampled flag of incoming `traceparent` headers. Off by default because verify requests
+    // come from unauthenticated clients, who could otherwise force every request to be recorded.
+    trustIncomingSampling?: boolean;
+}
+
+let tracing: TracingOptions | null = null;
+
+/**
+ * Enables tracing (typically from `instrumentation.ts`). Pass null to disable it again.
+ */
+export function setTracing(options: TracingOptions | null): void {
+    tracing = options;
+}
+
+// Used when tracing is disabled so call sites never need to check.
+const noopSpan: TraceSpan = {
+    setAttribute: () => noopSpan,
+    setStatus: () => noopSpan,
+    recordException: () => noopSpan,
+    end: () => {},
+};
+
+function withoutUndefined(attributes: SpanAttributes): SpanAttributes {
+    return Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined));
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Keeps the trace and parent IDs of an incoming `traceparent` but clears its sampled flag,
+ * so the tracer's own sampler decides. Malformed values are dropped.
+ */
+function withoutSampledFlag(headers: Record<string, string>): Record<string, string> {
+    const { traceparent, ...rest } = headers;
+    const match = traceparent ? TRACEPARENT_PATTERN.exec(traceparent.trim().toLowerCase()) : null;
+    if (!match) {
+        return rest;
+    }
+    const [, version, traceId, parentId, flags] = match;
+    const unsampledFlags = (parseInt(flags, 16) & ~1).toString(16).padStart(2, '0');
+    return { ...rest, traceparent: `${version}-${traceId}-${parentId}-${unsampledFlags}` };
+}
+
+/**
+ * Runs `fn` inside a span that is ended (and marked as errored if `fn` throws) when it settles.
+ * Nested calls become child spans. Attributes must never contain proofs, tokens, nullifiers or IPs.
+ * @param parentHeaders - Request headers to continue a propagated trace (e.g. `traceparent`) from.
+ * Their sampled flag is ignored unless `trustIncomingSampling` is set.
+ */
+export async function withSpan<T>(name: string, attributes: SpanAttributes, fn: (span: TraceSpan) => Promise<T>, parentHeaders?: Headers): Promise<T> {
+    if (!tracing) {
+        return fn(noopSpan);
+    }
+    let parentContext: unknown;
+    if (parentHeaders && tracing.extractContext) {
+        const headers = Object.fromEntries(parentHeaders.entries());
+        parentContext = tracing.extractContext(tracing.trustIncomingSampling ? headers : withoutSampledFlag(headers));
+    }
+
+    return tracing.tracer.startActiveSpan(name, { attributes: withoutUndefined(attributes) }, parentContext, async (span: TraceSpan) => {
+        try {
+            return await fn(span);
+        } catch (error: unknown) {
+            span.recordException(error instanceof Error ? error : String(error));
+            span.setStatus({ code: SPAN_STATUS_ERROR, message: error instanceof Error ? error.message : undefined });
+            throw error;
+        } finally {
+            span.end();
+        }
+    });
+}
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { UpstreamError, upstreamFetch } from './upstream';
+
+function connectionError(code: string): TypeError {
+    return new TypeError('fetch failed', { cause: Object.assign(new Error(code), { code }) });
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('upstreamFetch', () => {
+    it('retries 5xx responses', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(new Response('down', { status: 503 }))
+            .mockResolvedValueOnce(new Response('{"success":true}', { status: 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const response = await upstreamFetch('retry-5xx', 'https://example.com/verify', { method: 'POST' }, { maxRetries: 1 });
+        await expect(response.json()).resolves.toEqual({ success: true });
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('retries connection failures before the request was sent', async () => {
+        const fetchMock = vi.fn()
+            .mockRejectedValueOnce(connectionError('ECONNREFUSED'))
+            .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        await expect(upstreamFetch('retry-refused', 'https://example.com/verify', { method: 'POST' }, { maxRetries: 1 })).resolves.toBeInstanceOf(Response);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry errors after the request may have been sent', async () => {
+        const fetchMock = vi.fn().mockRejectedValue(connectionError('ECONNRESET'));
+        vi.stubGlobal('fetch', fetchMock);
+
+        await expect(upstreamFetch('no-retry-reset', 'https://example.com/verify', { method: 'POST' }, { maxRetries: 2 })).rejects.toBeInstanceOf(UpstreamError);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry timeouts', async () => {
+        const fetchMock = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+        }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        await expect(upstreamFetch('no-retry-timeout', 'https://example.com/verify', { method: 'POST' }, { timeoutMs: 10, maxRetries: 2 }))
+            .rejects.toThrow('no-retry-timeout timed out after 10ms');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,251 @@
+import { serverConfig } from './config';
+import { logger } from './logger';
+import { upstreamLatency } from './metrics';
+import { withSpan, type TraceSpan } from './tracing';
+
+// --- Configuration --- //
+// **Server-Side Environment Variables**
+
+// Per-attempt timeout for upstream verify calls, in milliseconds. Defaults to 5000.
+const UPSTREAM_TIMEOUT_MS = serverConfig.UPSTREAM_TIMEOUT_MS;
+// Retries after the first attempt, for connection failures and 5xx responses only. Defaults to 2.
+const UPSTREAM_MAX_RETRIES = serverConfig.UPSTREAM_MAX_RETRIES;
+// Base delay for exponential backoff between retries (full jitter), in milliseconds. Defaults to 200.
+const UPSTREAM_RETRY_BASE_MS = serverConfig.UPSTREAM_RETRY_BASE_MS;
+// Consecutive failed calls before a provider's circuit opens. Defaults to 5.
+const CIRCUIT_FAILURE_THRESHOLD = serverConfig.CIRCUIT_FAILURE_THRESHOLD;
+// How long an open circuit skips the provider before letting a trial call through. Defaults to 30000.
+const CIRCUIT_RESET_MS = serverConfig.CIRCUIT_RESET_MS;
+
+// --- Circuit Breaker --- //
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Observable breaker state for one provider (exposed for ops dashboards).
+ */
+export interface CircuitSnapshot {
+    provider: string;
+    state: CircuitState;
+    consecutiveFailures: number;
+    openedAt: number | null;
+    lastFailureAt: number | null;
+    lastError: string | null;
+}
+
+/**
+ * Error thrown instead of calling the provider while its circuit is open.
+ */
+export class CircuitOpenError extends Error {
+    constructor(public provider: string) {
+        super(`${provider} is temporarily unavailable (circuit open).`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+/**
+ * Error thrown when an upstream call fails after all retries (timeout, network error or 5xx).
+ */
+export class UpstreamError extends Error {
+    constructor(public provider: string, message: string, public status?: number) {
+        super(message);
+        this.name = 'UpstreamError';
+    }
+}
+
+class CircuitBreaker {
+    state: CircuitState = 'closed';
+    consecutiveFailures = 0;
+    openedAt: number | null = null;
+    lastFailureAt: number | null = null;
+    lastError: string | null = null;
+    // True while the half-open trial call is in flight; other calls are rejected until it settles
+    private probeInFlight = false;
+
+    constructor(private provider: string) { }
+
+    // Read-only: whether a call would currently be let through (no state change, safe for health checks).
+    isAvailable(now = Date.now()): boolean {
+        if (this.state === 'open') {
+            return this.openedAt !== null && now - this.openedAt >= CIRCUIT_RESET_MS;
+        }
+        return this.state === 'closed' || !this.probeInFlight;
+    }
+
+    // Claims permission for a call. After the reset period a single trial call is let through (half-open).
+    tryAcquire(now = Date.now()): boolean {
+        if (!this.isAvailable(now)) {
+            return false;
+        }
+        if (this.state !== 'closed') {
+            this.state = 'half_open';
+            this.probeInFlight = true;
+        }
+        return true;
+    }
+
+    recordSuccess(): void {
+        this.probeInFlight = false;
+        if (this.state !== 'closed') {
+            logger.info(`Circuit for ${this.provider} closed.`, { provider: this.provider });
+        }
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+        this.openedAt = null;
+    }
+
+    recordFailure(error: string, now = Date.now()): void {
+        this.probeInFlight = false;
+        this.consecutiveFailures += 1;
+        this.lastFailureAt = now;
+        this.lastError = error;
+        if (this.state === 'half_open' || this.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+            if (this.state !== 'open') {
+                logger.warn(`Circuit for ${this.provider} opened after ${this.consecutiveFailures} failures.`, { provider: this.provider, error });
+            }
+            this.state = 'open';
+            this.openedAt = now;
+        }
+    }
+
+    snapshot(): CircuitSnapshot {
+        return {
+            provider: this.provider,
+            state: this.state,
+            consecutiveFailures: this.consecutiveFailures,
+            openedAt: this.openedAt,
+            lastFailureAt: this.lastFailureAt,
+            lastError: this.lastError,
+        };
+    }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+function getBreaker(provider: string): CircuitBreaker {
+    let breaker = breakers.get(provider);
+    if (!breaker) {
+        breaker = new CircuitBreaker(provider);
+        breakers.set(provider, breaker);
+    }
+    return breaker;
+}
+
+/**
+ * Returns the circuit breaker state of every provider that has been called.
+ */
+export function getCircuitSnapshots(): CircuitSnapshot[] {
+    return Array.from(breakers.values(), (breaker) => breaker.snapshot());
+}
+
+/**
+ * Returns true if the provider's circuit is open (or its half-open trial call is in flight) and calls
+ * would be skipped. Read-only: checking never changes the breaker's state.
+ */
+export function isCircuitOpen(provider: string): boolean {
+    return !getBreaker(provider).isAvailable();
+}
+
+// --- Resilient Fetch --- //
+
+export interface UpstreamFetchOptions {
+    // Overrides UPSTREAM_TIMEOUT_MS for this provider.
+    timeoutMs?: number;
+    // Overrides UPSTREAM_MAX_RETRIES for this provider.
+    maxRetries?: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Connection errors raised before the request reached the provider. Only these are retried: verify
+// calls are not idempotent, and a repeated token or proof would come back as a duplicate.
+const PRE_REQUEST_ERROR_CODES: ReadonlySet<string> = new Set([
+    'ECONNREFUSED',
+    'ENOTFOUND',
+    'EAI_AGAIN',
+    'EHOSTUNREACH',
+    'ENETUNREACH',
+    'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+// `fetch` reports the underlying socket error as `cause`
+function failedBeforeSending(error: unknown): boolean {
+    const cause = error instanceof Error ? error.cause as { code?: unknown } | undefined : undefined;
+    return typeof cause?.code === 'string' && PRE_REQUEST_ERROR_CODES.has(cause.code);
+}
+
+/**
+ * `fetch` for upstream verification APIs with a per-attempt timeout, bounded retries with
+ * jittered exponential backoff and a per-provider circuit breaker. Only connection failures before
+ * the request is sent and 5xx responses are retried; a timeout may have reached the provider, so it
+ * fails the call at once (reported as unavailable rather than as a duplicate token on retry).
+ * 4xx responses are returned as-is: they are verdicts, not outages. The body is read within the
+ * timeout, so the returned response is fully buffered.
+ * Each call is traced as an `upstream.fetch` span.
+ * @throws CircuitOpenError if the provider's circuit is open.
+ * @throws UpstreamError if every attempt failed, or an attempt timed out or failed after sending.
+ */
+export async function upstreamFetch(provider: string, url: string, init: RequestInit, options: UpstreamFetchOptions = {}): Promise<Response> {
+    // Only the host is recorded: query strings may carry secrets
+    return withSpan('upstream.fetch', { 'upstream.provider': provider, 'server.address': new URL(url).host }, async (span) => {
+        const breaker = getBreaker(provider);
+        if (!breaker.tryAcquire()) {
+            span.setAttribute('upstream.outcome', 'circuit_open');
+            throw new CircuitOpenError(provider);
+        }
+        return fetchWithRetries(provider, url, init, options, breaker, span);
+    });
+}
+
+async function fetchWithRetries(provider: string, url: string, init: RequestInit, options: UpstreamFetchOptions, breaker: CircuitBreaker, span: TraceSpan): Promise<Response> {
+
+    const timeoutMs = options.timeoutMs ?? UPSTREAM_TIMEOUT_MS;
+    const maxRetries = options.maxRetries ?? UPSTREAM_MAX_RETRIES;
+    let lastError: UpstreamError | null = null;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        span.setAttribute('upstream.attempts', attempt + 1);
+        if (attempt > 0) {
+            // Full jitter: random delay between 0 and base * 2^(attempt - 1)
+            await sleep(Math.random() * UPSTREAM_RETRY_BASE_MS * 2 ** (attempt - 1));
+        }
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        const startedAt = performance.now();
+        try {
+            const response = await fetch(url, { ...init, signal: controller.signal });
+            if (response.status >= 500) {
+                // Discard the body so the connection is released before retrying
+                await response.body?.cancel().catch(() => undefined);
+                upstreamLatency.observe({ provider, outcome: 'server_error' }, (performance.now() - startedAt) / 1000);
+                lastError = new UpstreamError(provider, `${provider} responded with status ${response.status}`, response.status);
+                logger.warn(lastError.message, { provider, attempt: attempt + 1, maxAttempts: maxRetries + 1 });
+                continue;
+            }
+            // Read the body under the same timeout, so a stalled body cannot hang the request
+            const body = await response.arrayBuffer();
+            upstreamLatency.observe({ provider, outcome: 'ok' }, (performance.now() - startedAt) / 1000);
+            breaker.recordSuccess();
+            span.setAttribute('http.response.status_code', response.status);
+            span.setAttribute('upstream.outcome', 'ok');
+            return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+        } catch (error: unknown) {
+            const timedOut = controller.signal.aborted;
+            upstreamLatency.observe({ provider, outcome: timedOut ? 'timeout' : 'network_error' }, (performance.now() - startedAt) / 1000);
+            const message = timedOut ? `${provider} timed out after ${timeoutMs}ms` : `${provider} request failed: ${error instanceof Error ? error.message : String(error)}`;
+            lastError = new UpstreamError(provider, message);
+            logger.warn(message, { provider, attempt: attempt + 1, maxAttempts: maxRetries + 1 });
+            if (timedOut || !failedBeforeSending(error)) {
+                // The provider may have received the request; a retry would be rejected as a duplicate
+                break;
+            }
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    breaker.recordFailure(lastError!.message);
+    span.setAttribute('upstream.outcome', lastError!.status ? 'server_error' : 'unreachable');
+    throw lastError!;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest"
+import { sanitizeReturnTo } from "./utils"
+
+describe("sanitizeReturnTo", () => {
+  it("keeps same-origin paths with query and hash", () => {
+    expect(sanitizeReturnTo("/dashboard")).toBe("/dashboard")
+    expect(sanitizeReturnTo("/reports/1?tab=2#top")).toBe("/reports/1?tab=2#top")
+  })
+
+  it("falls back to / for missing or relative values", () => {
+    expect(sanitizeReturnTo(null)).toBe("/")
+    expect(sanitizeReturnTo(undefined)).toBe("/")
+    expect(sanitizeReturnTo("")).toBe("/")
+    expect(sanitizeReturnTo("dashboard")).toBe("/")
+  })
+
+  it("rejects absolute and protocol-relative URLs", () => {
+    expect(sanitizeReturnTo("https://evil.com/")).toBe("/")
+    expect(sanitizeReturnTo("//evil.com")).toBe("/")
+    expect(sanitizeReturnTo("/\\evil.com")).toBe("/")
+  })
+
+  it("rejects paths that browsers resolve to another origin", () => {
+    expect(sanitizeReturnTo("/\t/evil.com")).toBe("/")
+    expect(sanitizeReturnTo("/\n/evil.com")).toBe("/")
+    expect(sanitizeReturnTo("/\r\n/evil.com")).toBe("/")
+    expect(sanitizeReturnTo("/\\/evil.com")).toBe("/")
+    expect(sanitizeReturnTo("\\\\evil.com")).toBe("/")
+  })
+
+  it("rejects encoded variants once decoded from the query string", () => {
+    for (const query of ["returnTo=/%09/evil.com", "returnTo=/%0A/evil.com", "returnTo=/%5Cevil.com", "returnTo=%2F%2Fevil.com"]) {
+      expect(sanitizeReturnTo(new URLSearchParams(query).get("returnTo"))).toBe("/")
+    }
+  })
+
+  it("keeps still-encoded variants as paths on the same origin", () => {
+    expect(sanitizeReturnTo("/%09/evil.com")).toBe("/%09/evil.com")
+    expect(sanitizeReturnTo("/%2F%2Fevil.com")).toBe("/%2F%2Fevil.com")
+  })
+})
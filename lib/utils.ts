@@ -4,3 +4,24 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Placeholder origin to resolve `returnTo` against; only whether the URL stays on it matters.
+const RETURN_TO_BASE = "http://return-to.invalid"
+
+// Returns `returnTo` as a same-origin path (with query and hash), otherwise "/". Prevents open redirects
+// after verification. Parsed like browsers do, which drop tabs and newlines and read a backslash as "/".
+export function sanitizeReturnTo(returnTo: string | null | undefined): string {
+  if (!returnTo || !returnTo.startsWith("/")) {
+    return "/"
+  }
+  let url: URL
+  try {
+    url = new URL(returnTo, RETURN_TO_BASE)
+  } catch {
+    return "/"
+  }
+  if (url.origin !== RETURN_TO_BASE) {
+    return "/"
+  }
+  return `${url.pathname}${url.search}${url.hash}`
+}
@@ -0,0 +1,102 @@
+// Machine-readable failure codes shared by the verify route and the client.
+
+/**
+ * Why a verification request failed. Returned as `code` in every failure response of
+ * `/api/verify-captcha` (and of endpoints protected by `requireHuman`) and exposed on the client as `WidCaptchaError.code`.
+ */
+export enum VerificationErrorCode {
+    // No `idkit_response` or `captcha_token` in the request.
+    MissingPayload = 'missing_payload',
+    // The request body is not valid JSON.
+    InvalidJson = 'invalid_json',
+    // The request body failed validation; see `field_errors`.
+    InvalidRequest = 'invalid_request',
+    // The request body exceeds the size limit.
+    PayloadTooLarge = 'payload_too_large',
+    // The provider rejected the proof or token (e.g. an invalid World ID proof).
+    ProviderRejected = 'provider_rejected',
+    // The CAPTCHA token is malformed or unknown to the provider.
+    TokenInvalid = 'token_invalid',
+    // The CAPTCHA token or challenge expired before it was verified.
+    TokenExpired = 'token_expired',
+    // The CAPTCHA token was already verified once.
+    TokenReused = 'token_reused',
+    // The token was solved on another hostname or for another action.
+    BindingMismatch = 'binding_mismatch',
+    // reCAPTCHA v3 score below RECAPTCHA_MIN_SCORE.
+    ScoreTooLow = 'score_too_low',
+    // The World ID nullifier already reached its use limit for this action.
+    Replay = 'replay',
+    // The verification policy needs further steps; see `requirements.remaining`. Not an error for the user.
+    RequirementsUnmet = 'requirements_unmet',
+    // A protected endpoint (`requireHuman`) was called without a valid human session.
+    SessionRequired = 'session_required',
+    // The human session is below the endpoint's `required_level`; step up to continue.
+    InsufficientAssurance = 'insufficient_assurance',
+    // The human session was not verified for the endpoint's `required_action` (see lib/verification-policy).
+    ActionRequired = 'action_required',
+    // Too many attempts from this client or human; see `retry_after`.
+    RateLimited = 'rate_limited',
+    // Secrets or site keys are missing or do not match on the server.
+    Misconfigured = 'misconfigured',
+    // The provider could not be reached or is temporarily failing.
+    UpstreamUnavailable = 'upstream_unavailable',
+    // The browser could not reach the verify endpoint.
+    NetworkError = 'network_error',
+    // The browser could not load the CAPTCHA provider's script (blocked or offline).
+    ScriptLoadFailed = 'script_load_failed',
+    // Unexpected server error.
+    InternalError = 'internal_error',
+}
+
+// Failures that may succeed if the user simply tries again (with a fresh challenge).
+const RETRYABLE_ERROR_CODES: ReadonlySet<VerificationErrorCode> = new Set([
+    VerificationErrorCode.TokenExpired,
+    VerificationErrorCode.TokenReused,
+    VerificationErrorCode.RateLimited,
+    VerificationErrorCode.UpstreamUnavailable,
+    VerificationErrorCode.NetworkError,
+    VerificationErrorCode.ScriptLoadFailed,
+    VerificationErrorCode.InternalError,
+]);
+
+/**
+ * Returns true if retrying (after `retry_after` for rate limits) may succeed.
+ */
+export function isRetryableErrorCode(code: VerificationErrorCode): boolean {
+    return RETRYABLE_ERROR_CODES.has(code);
+}
+
+// Provider `error-codes` (reCAPTCHA, hCaptcha, Turnstile) and our own check reasons.
+const PROVIDER_ERROR_CODES: Record<string, VerificationErrorCode> = {
+    'missing-input-secret': VerificationErrorCode.Misconfigured,
+    'invalid-input-secret': VerificationErrorCode.Misconfigured,
+    'sitekey-secret-mismatch': VerificationErrorCode.Misconfigured,
+    'sitekey-mismatch': VerificationErrorCode.Misconfigured,
+    'invalid-sitekey': VerificationErrorCode.Misconfigured,
+    'missing-input-response': VerificationErrorCode.TokenInvalid,
+    'invalid-input-response': VerificationErrorCode.TokenInvalid,
+    'bad-request': VerificationErrorCode.TokenInvalid,
+    'challenge-ts-missing': VerificationErrorCode.TokenInvalid,
+    'timeout-or-duplicate': VerificationErrorCode.TokenExpired,
+    'expired-input-response': VerificationErrorCode.TokenExpired,
+    'invalid-or-already-seen-response': VerificationErrorCode.TokenExpired,
+    'challenge-expired': VerificationErrorCode.TokenExpired,
+    'already-seen-response': VerificationErrorCode.TokenReused,
+    'hostname-mismatch': VerificationErrorCode.BindingMismatch,
+    'action-mismatch': VerificationErrorCode.BindingMismatch,
+    'score-too-low': VerificationErrorCode.ScoreTooLow,
+    'internal-error': VerificationErrorCode.UpstreamUnavailable,
+};
+
+/**
+ * Maps provider `error-codes` (and check reasons such as 'score-too-low') to a VerificationErrorCode.
+ * Server misconfiguration wins over token problems, so operators are not misled by follow-on errors.
+ */
+export function errorCodeFromProvider(errorCodes: string[] | undefined): VerificationErrorCode {
+    const mapped = (errorCodes ?? []).map((errorCode) => PROVIDER_ERROR_CODES[errorCode]).filter(Boolean);
+    if (mapped.includes(VerificationErrorCode.Misconfigured)) {
+        return VerificationErrorCode.Misconfigured;
+    }
+    return mapped[0] ?? VerificationErrorCode.ProviderRejected;
+}
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { evaluatePolicy, getPolicyRule, isPolicyAction, setVerificationPolicy } from './verification-policy';
+
+afterEach(() => {
+    setVerificationPolicy(null);
+});
+
+describe('evaluatePolicy', () => {
+    it('meets an anyOf rule with one of its methods', () => {
+        expect(evaluatePolicy({ anyOf: ['world_id', 'recaptcha'] }, ['recaptcha'])).toEqual({
+            met: true,
+            progress: { mode: 'any_of', satisfied: ['recaptcha'], remaining: [] },
+        });
+    });
+
+    it('lists every option of an unmet anyOf rule as remaining', () => {
+        expect(evaluatePolicy({ anyOf: ['world_id', 'hcaptcha'] }, ['recaptcha'])).toEqual({
+            met: false,
+            progress: { mode: 'any_of', satisfied: [], remaining: ['world_id', 'hcaptcha'] },
+        });
+    });
+
+    it('needs every method of an allOf rule', () => {
+        expect(evaluatePolicy({ allOf: ['world_id', 'captcha'] }, ['world_id'])).toEqual({
+            met: false,
+            progress: { mode: 'all_of', satisfied: ['world_id'], remaining: ['captcha'] },
+        });
+        expect(evaluatePolicy({ allOf: ['world_id', 'captcha'] }, ['world_id', 'turnstile']).met).toBe(true);
+    });
+
+    it('satisfies "captcha" with any CAPTCHA provider but not with other methods', () => {
+        expect(evaluatePolicy({ anyOf: ['captcha'] }, ['hcaptcha']).met).toBe(true);
+        expect(evaluatePolicy({ anyOf: ['captcha'] }, ['world_id', 'inhouse']).met).toBe(false);
+    });
+});
+
+describe('policy actions', () => {
+    it('has no rules or actions without a policy', () => {
+        expect(getPolicyRule('delete-account')).toBeNull();
+        expect(isPolicyAction('delete-account')).toBe(false);
+    });
+
+    it('uses the action rule, and the default rule for other actions', () => {
+        setVerificationPolicy({
+            default: { anyOf: ['world_id', 'captcha'] },
+            actions: { 'delete-account': { allOf: ['world_id', 'captcha'] } },
+        });
+        expect(getPolicyRule('delete-account')).toEqual({ allOf: ['world_id', 'captcha'] });
+        expect(getPolicyRule('unknown')).toEqual({ anyOf: ['world_id', 'captcha'] });
+        expect(getPolicyRule(null)).toEqual({ anyOf: ['world_id', 'captcha'] });
+    });
+
+    it('only accepts configured actions, not inherited object keys', () => {
+        setVerificationPolicy({ default: { anyOf: ['captcha'] }, actions: { vote: { anyOf: ['world_id'] } } });
+        expect(isPolicyAction('vote')).toBe(true);
+        expect(isPolicyAction('unknown')).toBe(false);
+        expect(isPolicyAction('toString')).toBe(false);
+    });
+
+    it('rejects invalid policies', () => {
+        expect(() => setVerificationPolicy({ default: { anyOf: [] } })).toThrow();
+    });
+});
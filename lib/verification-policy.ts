@@ -0,0 +1,116 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { ConfigError, serverConfig } from './config';
+import { logger } from './logger';
+import type { PolicyProgress } from './verification-schema';
+
+// Declarative rules for which verifications a request needs: any of several methods, all of them,
+// or stricter rules for specific actions (step-up). Without a policy, the first verifier that
+// succeeds wins (primary, then fallbacks).
+
+// --- Configuration --- //
+// **Server-Side Environment Variables**
+
+// Optional: Path of a JSON file with the verification policy (see `verificationPolicySchema`).
+// Unset = first success wins.
+const VERIFICATION_POLICY_FILE = serverConfig.VERIFICATION_POLICY_FILE;
+
+// Methods that satisfy the generic 'captcha' requirement.
+const CAPTCHA_METHODS: ReadonlySet<string> = new Set(['recaptcha', 'hcaptcha', 'turnstile']);
+
+// --- Schema --- //
+
+// A verification method ('world_id', 'recaptcha', a custom verifier's method) or 'captcha' for any CAPTCHA provider.
+const requirementSchema = z.string().min(1);
+
+export const policyRuleSchema = z.union([
+    z.object({ anyOf: z.array(requirementSchema).min(1) }).strict(),
+    z.object({ allOf: z.array(requirementSchema).min(1) }).strict(),
+]);
+
+/**
+ * A verification policy, e.g.
+ * `{ "default": { "anyOf": ["world_id", "captcha"] }, "actions": { "delete-account": { "allOf": ["world_id", "captcha"] } } }`.
+ */
+export const verificationPolicySchema = z.object({
+    // Rule for requests without an `action`, or with an action not listed below.
+    default: policyRuleSchema,
+    // Rules per action (the `action` field of the request).
+    actions: z.record(policyRuleSchema).default({}),
+}).strict();
+
+export type PolicyRule = z.infer<typeof policyRuleSchema>;
+export type VerificationPolicy = z.infer<typeof verificationPolicySchema>;
+
+// --- Policy Store --- //
+
+// An invalid policy file stops startup: falling back to "first success wins" would weaken protected actions.
+function loadPolicyFile(file: string): VerificationPolicy {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(readFileSync(file, 'utf8'));
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new ConfigError([{ severity: 'error', variable: 'VERIFICATION_POLICY_FILE', message: `Cannot read "${file}": ${message}` }]);
+    }
+    const result = verificationPolicySchema.safeParse(parsed);
+    if (!result.success) {
+        throw new ConfigError(result.error.issues.map((issue) => ({
+            severity: 'error',
+            variable: 'VERIFICATION_POLICY_FILE',
+            message: `${issue.path.join('.') || '(policy)'}: ${issue.message}`,
+        })));
+    }
+    logger.info('Loaded verification policy.', { file, actions: Object.keys(result.data.actions) });
+    return result.data;
+}
+
+let policy: VerificationPolicy | null = VERIFICATION_POLICY_FILE ? loadPolicyFile(VERIFICATION_POLICY_FILE) : null;
+
+/**
+ * Replaces the verification policy (e.g. one defined in code), or restores "first success wins" with null.
+ * @throws ZodError if the policy is invalid.
+ */
+export function setVerificationPolicy(newPolicy: z.input<typeof verificationPolicySchema> | null): void {
+    policy = newPolicy === null ? null : verificationPolicySchema.parse(newPolicy);
+}
+
+/**
+ * Returns true if a policy is configured and lists the action. Requests naming other actions are rejected,
+ * so clients cannot invent actions that sessions would then be issued for.
+ */
+export function isPolicyAction(action: string): boolean {
+    return !!policy && Object.hasOwn(policy.actions, action);
+}
+
+/**
+ * Returns the rule for an action (the default rule for unknown or missing actions),
+ * or null if no policy is configured.
+ */
+export function getPolicyRule(action?: string | null): PolicyRule | null {
+    if (!policy) {
+        return null;
+    }
+    return (action ? policy.actions[action] : undefined) ?? policy.default;
+}
+
+// --- Evaluation --- //
+
+function isSatisfied(requirement: string, methods: readonly string[]): boolean {
+    return methods.includes(requirement) || (requirement === 'captcha' && methods.some((method) => CAPTCHA_METHODS.has(method)));
+}
+
+/**
+ * Evaluates a rule against the methods verified so far (in this request and earlier steps).
+ * @returns Whether the rule is met, and which requirements are satisfied and which remain.
+ */
+export function evaluatePolicy(rule: PolicyRule, methods: readonly string[]): { met: boolean; progress: PolicyProgress } {
+    if ('anyOf' in rule) {
+        const satisfied = rule.anyOf.filter((requirement) => isSatisfied(requirement, methods));
+        const met = satisfied.length > 0;
+        return { met, progress: { mode: 'any_of', satisfied, remaining: met ? [] : rule.anyOf } };
+    }
+    const satisfied = rule.allOf.filter((requirement) => isSatisfied(requirement, methods));
+    const remaining = rule.allOf.filter((requirement) => !isSatisfied(requirement, methods));
+    return { met: remaining.length === 0, progress: { mode: 'all_of', satisfied, remaining } };
+}
@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import { VerificationErrorCode } from './verification-errors';
+import { captchaProviderSchema } from './public-config';
+import { assuranceLevelSchema } from './assurance';
+
+// Shared contract of `/api/verify-captcha` requests and responses. The route validates what it
+// receives and sends, and the client validates what it receives, so neither side can drift from this file.
+
+// Bump when the response shape changes incompatibly.
+export const VERIFICATION_API_VERSION = 1;
+
+// --- Requests --- //
+
+// Upper bound for CAPTCHA tokens (reCAPTCHA ~2 KB, Turnstile <= 2 KB, hCaptcha can be larger).
+export const MAX_CAPTCHA_TOKEN_LENGTH = 8192;
+
+const hex32 = z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'Expected a 0x-prefixed 32-byte hex string');
+// World ID levels as reported by IDKit (`verification_level`, formerly `credential_type`)
+const worldIdLevel = z.enum(['orb', 'device', 'document', 'secure_document']);
+
+/**
+ * The `IDKitWidget` success result, as forwarded by the client.
+ */
+export const idkitResponseSchema = z.object({
+    merkle_root: hex32,
+    nullifier_hash: hex32,
+    // ABI-encoded Semaphore proof: 8 x uint256
+    proof: z.string().regex(/^0x[0-9a-fA-F]{512}$/, 'Expected a 0x-prefixed 256-byte hex string'),
+    credential_type: worldIdLevel.optional(),
+    verification_level: worldIdLevel.optional(),
+    signal: z.string().max(1024).optional(),
+}).strict().refine((proof) => proof.verification_level || proof.credential_type, {
+    message: 'Either verification_level or credential_type is required',
+    path: ['verification_level'],
+});
+
+/**
+ * Body of a POST to `/api/verify-captcha`. Unknown keys are rejected; custom verifiers
+ * declare their own fields with `Verifier.bodySchema`.
+ */
+export const verificationRequestSchema = z.object({
+    idkit_response: idkitResponseSchema.optional(),
+    captcha_token: z.string().min(1).max(MAX_CAPTCHA_TOKEN_LENGTH).optional(),
+    // Provider that issued `captcha_token`. Defaults to the server's CAPTCHA_PROVIDER.
+    captcha_provider: captchaProviderSchema.optional(),
+    // Operation being protected (e.g. "delete-account"), selecting its rule of the verification policy.
+    action: z.string().min(1).max(128).optional(),
+}).strict();
+
+export type VerificationRequest = z.infer<typeof verificationRequestSchema>;
+
+// --- Provider Details --- //
+
+/**
+ * siteverify response of reCAPTCHA, hCaptcha or Turnstile (plus any fields the server adds).
+ */
+export const captchaDetailsSchema = z.object({
+    success: z.boolean().optional(),
+    challenge_ts: z.string().optional(),
+    hostname: z.string().optional(),
+    'error-codes': z.array(z.string()).optional(),
+    // reCAPTCHA v3 only
+    score: z.number().optional(),
+    action: z.string().optional(),
+    // Threshold the server compared `score` against
+    min_score: z.number().optional(),
+    // Set by the server when a check beyond `success` fails (e.g. "score-too-low", "action-mismatch")
+    reason: z.string().optional(),
+}).passthrough();
+
+/**
+ * Details of a World ID verification.
+ */
+export const worldIdDetailsSchema = z.object({
+    // 'orb' or 'device'
+    verification_level: z.string(),
+}).passthrough();
+
+export const verificationDetailsSchema = z.union([worldIdDetailsSchema, captchaDetailsSchema]);
+
+// --- Responses --- //
+
+/**
+ * Progress against the verification policy rule of the request (see `lib/verification-policy`).
+ * Requirements are methods ('world_id', 'recaptcha', ...) or 'captcha' for any CAPTCHA provider.
+ */
+export const policyProgressSchema = z.object({
+    // 'any_of': one of `remaining` completes the check; 'all_of': every one of them is needed.
+    mode: z.enum(['any_of', 'all_of']),
+    satisfied: z.array(z.string()),
+    remaining: z.array(z.string()),
+});
+
+const responseBase = {
+    version: z.literal(VERIFICATION_API_VERSION),
+    // Verifiers that received a payload, in the order they were tried.
+    attempted_methods: z.array(z.string()),
+    // Set when a verification policy is configured.
+    requirements: policyProgressSchema.optional(),
+};
+
+export const verificationSuccessSchema = z.object({
+    ...responseBase,
+    success: z.literal(true),
+    // Method that succeeded (e.g. 'world_id', 'recaptcha' or a custom verifier's method).
+    method: z.string(),
+    message: z.string(),
+    details: verificationDetailsSchema.optional(),
+    // Assurance level of the caller (see lib/assurance), including a stronger session it already had.
+    assurance_level: assuranceLevelSchema.optional(),
+    // Set when a human session was issued (seconds since the epoch).
+    session_expires_at: z.number().optional(),
+    // Set when SESSION_TOKEN_IN_BODY is enabled.
+    session_token: z.string().optional(),
+});
+
+export const verificationFailureSchema = z.object({
+    ...responseBase,
+    success: z.literal(false),
+    error: z.string(),
+    code: z.nativeEnum(VerificationErrorCode),
+    // Method whose failure is reported, if a verifier ran.
+    method: z.string().optional(),
+    details: verificationDetailsSchema.optional(),
+    // Seconds until a rate-limited client may try again.
+    retry_after: z.number().optional(),
+    // Set by endpoints protected with `requireHuman`: the caller's assurance level and what the endpoint requires.
+    assurance_level: assuranceLevelSchema.optional(),
+    required_level: assuranceLevelSchema.optional(),
+    required_action: z.string().optional(),
+    // Set with `invalid_request`: what is wrong with which field (dotted path, e.g. "idkit_response.proof").
+    field_errors: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+});
+
+export const verificationApiResponseSchema = z.discriminatedUnion('success', [verificationSuccessSchema, verificationFailureSchema]);
+
+/**
+ * Response of `GET /api/verify-captcha/session`: the caller's current human session. Lets clients
+ * restore their verification state after a reload, since the session cookie is HttpOnly.
+ */
+export const sessionStatusSchema = z.object({
+    version: z.literal(VERIFICATION_API_VERSION),
+    verified: z.boolean(),
+    // Method of the session, or null without a session.
+    method: z.string().nullable(),
+    assurance_level: assuranceLevelSchema,
+    // Policy action the session was verified for (see lib/verification-policy).
+    action: z.string().nullable(),
+    // Session expiry (seconds since the epoch), or null without a session.
+    session_expires_at: z.number().nullable(),
+});
+
+export type PolicyProgress = z.infer<typeof policyProgressSchema>;
+export type CaptchaDetails = z.infer<typeof captchaDetailsSchema>;
+export type WorldIdDetails = z.infer<typeof worldIdDetailsSchema>;
+export type VerificationDetails = z.infer<typeof verificationDetailsSchema>;
+export type VerificationSuccessResponse = z.infer<typeof verificationSuccessSchema>;
+export type VerificationFailureResponse = z.infer<typeof verificationFailureSchema>;
+export type VerificationApiResponse = z.infer<typeof verificationApiResponseSchema>;
+export type SessionStatusResponse = z.infer<typeof sessionStatusSchema>;
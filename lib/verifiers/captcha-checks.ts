@@ -0,0 +1,44 @@
+import { serverConfig } from '@/lib/config';
+import type { CaptchaProvider, CaptchaVerificationDetails } from '@/types';
+
+// --- Configuration --- //
+// **Server-Side Environment Variables**
+
+// Optional: Comma-separated hostnames CAPTCHAs may be solved on (e.g. "example.com,www.example.com").
+// Tokens solved elsewhere (e.g. on a phishing clone) are rejected. Unset = hostname not checked.
+const CAPTCHA_ALLOWED_HOSTNAMES = serverConfig.CAPTCHA_ALLOWED_HOSTNAMES;
+// Maximum age of the solved challenge (`challenge_ts`) in seconds. Defaults to 300.
+const CAPTCHA_MAX_CHALLENGE_AGE_SECONDS = serverConfig.CAPTCHA_MAX_CHALLENGE_AGE_SECONDS;
+// Provider assumed for requests that do not name one in `captcha_provider`.
+const CAPTCHA_PROVIDER = serverConfig.CAPTCHA_PROVIDER;
+
+/**
+ * Checks a successful siteverify response for binding to our site: hostname allowlist and challenge age.
+ * @returns A failure reason ('hostname-mismatch', 'challenge-expired', 'challenge-ts-missing'), or null if all checks pass.
+ */
+export function checkCaptchaBinding(result: CaptchaVerificationDetails, now = Date.now()): string | null {
+    if (CAPTCHA_ALLOWED_HOSTNAMES.length > 0) {
+        const hostname = result.hostname?.toLowerCase();
+        if (!hostname || !CAPTCHA_ALLOWED_HOSTNAMES.includes(hostname)) {
+            return 'hostname-mismatch';
+        }
+    }
+
+    if (!result.challenge_ts) {
+        return 'challenge-ts-missing';
+    }
+    const solvedAt = Date.parse(result.challenge_ts);
+    if (Number.isNaN(solvedAt) || now - solvedAt > CAPTCHA_MAX_CHALLENGE_AGE_SECONDS * 1000) {
+        return 'challenge-expired';
+    }
+    return null;
+}
+
+/**
+ * Builds `extractPayload` for a CAPTCHA verifier: returns `captcha_token` only if the request was
+ * issued by this provider (`captcha_provider`, defaulting to CAPTCHA_PROVIDER), so each token is
+ * checked with the matching secret.
+ */
+export function extractCaptchaToken(provider: CaptchaProvider): (body: Record<string, any>) => string | undefined {
+    return (body) => ((body.captcha_provider ?? CAPTCHA_PROVIDER) === provider ? body.captcha_token : undefined);
+}
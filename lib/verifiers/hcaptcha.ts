@@ -0,0 +1,43 @@
+import type { Verifier, VerifierContext, VerifierResult } from './types';
+import { isCircuitOpen } from '@/lib/upstream';
+import { serverConfig } from '@/lib/config';
+import { extractCaptchaToken } from './captcha-checks';
+import { verifySiteverifyToken, type SiteverifyProvider } from './siteverify';
+
+// hCaptcha Secret Key (Keep this secret!)
+const HCAPTCHA_SECRET_KEY = serverConfig.HCAPTCHA_SECRET_KEY;
+// hCaptcha Site Key. Sent with each verification so tokens issued for another site key are rejected.
+const HCAPTCHA_SITE_KEY = serverConfig.NEXT_PUBLIC_HCAPTCHA_SITE_KEY;
+
+const HCAPTCHA_VERIFY_URL = 'https://api.hcaptcha.com/siteverify';
+// Optional: Per-attempt timeout for hCaptcha calls in milliseconds. Defaults to UPSTREAM_TIMEOUT_MS.
+const HCAPTCHA_TIMEOUT_MS = serverConfig.HCAPTCHA_TIMEOUT_MS;
+
+const hcaptchaSiteverify: SiteverifyProvider = {
+    name: 'hCaptcha',
+    url: HCAPTCHA_VERIFY_URL,
+    secret: HCAPTCHA_SECRET_KEY,
+    secretVariable: 'HCAPTCHA_SECRET_KEY',
+    timeoutMs: HCAPTCHA_TIMEOUT_MS,
+    // hCaptcha rejects the token with 'sitekey-secret-mismatch' if it was issued for another site key
+    params: HCAPTCHA_SITE_KEY ? { sitekey: HCAPTCHA_SITE_KEY } : undefined,
+    failureReason: (errorCodes) => (errorCodes.includes('sitekey-secret-mismatch') ? 'sitekey-mismatch' : undefined),
+};
+
+/**
+ * Verifies the hCaptcha token using the hCaptcha API.
+ * @param token - The hCaptcha token received from the frontend.
+ * @param context - Request context; the client IP is forwarded as `remoteip`.
+ * @returns VerifierResult - Verification success, a status message, and details.
+ */
+export async function verifyHCaptcha(token: string, context?: VerifierContext): Promise<VerifierResult> {
+    return verifySiteverifyToken(hcaptchaSiteverify, token, context);
+}
+
+export const hcaptchaVerifier: Verifier<string> = {
+    name: 'hCaptcha',
+    method: 'hcaptcha',
+    extractPayload: extractCaptchaToken('hcaptcha'),
+    isAvailable: () => !isCircuitOpen('hCaptcha'),
+    verify: verifyHCaptcha,
+};
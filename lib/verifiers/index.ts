@@ -0,0 +1,58 @@
+import { registerVerifier, getVerifiers } from './registry';
+import { worldIdVerifier } from './world-id';
+import { recaptchaVerifier } from './recaptcha';
+import { hcaptchaVerifier } from './hcaptcha';
+import { turnstileVerifier } from './turnstile';
+import type { Verifier } from './types';
+import { logger } from '@/lib/logger';
+import { configProblems, formatConfigProblems, serverConfig } from '@/lib/config';
+import type { CaptchaProvider } from '@/types';
+import { appVerifiers } from '@/verifiers';
+
+export type { Verifier, VerifierContext, VerifierResult } from './types';
+export type { RegisterOptions, VerifierRegistration } from './registry';
+export type { IDKitResponse } from './world-id';
+export { registerVerifier, unregisterVerifier, getVerifiers, getVerifiersByHealth } from './registry';
+export { worldIdVerifier, verifyWorldID } from './world-id';
+export { recaptchaVerifier, verifyRecaptcha } from './recaptcha';
+export { hcaptchaVerifier, verifyHCaptcha } from './hcaptcha';
+export { turnstileVerifier, verifyTurnstile } from './turnstile';
+
+// --- Configuration --- //
+// **Server-Side Environment Variables** (validated in lib/config)
+
+// Default CAPTCHA provider ('recaptcha', 'hcaptcha' or 'turnstile'), used for requests without `captcha_provider`.
+// Defaults to NEXT_PUBLIC_CAPTCHA_PROVIDER so server and client agree.
+export const CAPTCHA_PROVIDER = serverConfig.CAPTCHA_PROVIDER;
+// Enabled CAPTCHA providers in failover order (CAPTCHA_PROVIDERS), starting with CAPTCHA_PROVIDER. Tokens of any
+// of them are accepted when the client names it in `captcha_provider`. Without a list, only CAPTCHA_PROVIDER.
+export const CAPTCHA_PROVIDERS = serverConfig.CAPTCHA_PROVIDERS;
+// Determines the verification order ('worldid' or 'captcha'). Defaults to 'worldid'.
+// Used only to order the default verifiers in the registry.
+export const PRIMARY_VERIFIER = serverConfig.PRIMARY_VERIFIER;
+
+// --- Initial Checks --- //
+// Log every missing or mismatched setting once, as a single diagnostic, during server startup.
+if (configProblems.length > 0) {
+    const hasErrors = configProblems.some((problem) => problem.severity === 'error');
+    logger[hasErrors ? 'error' : 'warn'](formatConfigProblems(configProblems), { problems: configProblems });
+}
+
+// --- Default Registration --- //
+// Registry order drives primary/fallback: the first verifier is tried first.
+// App verifiers from `verifiers.ts` (project root) follow the built-in ones unless placed with `before`.
+// Guarded so re-imports (e.g. during dev hot reload) don't register twice.
+if (getVerifiers().length === 0) {
+    const captchaVerifiers: Record<CaptchaProvider, Verifier<string>> = {
+        recaptcha: recaptchaVerifier,
+        hcaptcha: hcaptchaVerifier,
+        turnstile: turnstileVerifier,
+    };
+    // Each CAPTCHA verifier only picks up tokens issued by its own provider (see `extractCaptchaToken`)
+    const enabledCaptchaVerifiers = CAPTCHA_PROVIDERS.map((provider) => captchaVerifiers[provider]);
+    const defaults: Verifier<any>[] = PRIMARY_VERIFIER === 'captcha'
+        ? [...enabledCaptchaVerifiers, worldIdVerifier]
+        : [worldIdVerifier, ...enabledCaptchaVerifiers];
+    defaults.forEach((verifier) => registerVerifier(verifier));
+    appVerifiers.forEach(({ verifier, ...options }) => registerVerifier(verifier, options));
+}
@@ -0,0 +1,65 @@
+import type { Verifier, VerifierContext, VerifierResult } from './types';
+import { isCircuitOpen } from '@/lib/upstream';
+import { logger } from '@/lib/logger';
+import { serverConfig } from '@/lib/config';
+import { VerificationErrorCode } from '@/lib/verification-errors';
+import { extractCaptchaToken } from './captcha-checks';
+import { verifySiteverifyToken, type SiteverifyProvider } from './siteverify';
+import type { CaptchaVerificationDetails } from '@/types';
+
+// Google reCAPTCHA Secret Key (Keep this secret!)
+const RECAPTCHA_SECRET_KEY = serverConfig.RECAPTCHA_SECRET_KEY;
+// reCAPTCHA mode: 'v2' (checkbox) or 'v3' (invisible, score-based). Must match NEXT_PUBLIC_RECAPTCHA_VERSION.
+export const RECAPTCHA_VERSION = serverConfig.RECAPTCHA_VERSION;
+// v3 only: Minimum score (0.0 - 1.0) required to pass. Defaults to 0.5 as recommended by Google.
+export const RECAPTCHA_MIN_SCORE = serverConfig.RECAPTCHA_MIN_SCORE;
+// v3 only: Expected action name passed to grecaptcha.execute(). Must match NEXT_PUBLIC_RECAPTCHA_ACTION.
+export const RECAPTCHA_ACTION = serverConfig.RECAPTCHA_ACTION;
+
+const RECAPTCHA_VERIFY_URL = 'https://www.google.com/recaptcha/api/siteverify';
+// Optional: Per-attempt timeout for reCAPTCHA calls in milliseconds. Defaults to UPSTREAM_TIMEOUT_MS.
+const RECAPTCHA_TIMEOUT_MS = serverConfig.RECAPTCHA_TIMEOUT_MS;
+
+/**
+ * v3 tokens always "succeed"; the score and action decide whether the caller passes.
+ */
+function checkRecaptchaV3(result: CaptchaVerificationDetails): VerifierResult {
+    const details: CaptchaVerificationDetails = { ...result, min_score: RECAPTCHA_MIN_SCORE };
+    if (result.action !== RECAPTCHA_ACTION) {
+        logger.warn('reCAPTCHA v3 action mismatch.', { expectedAction: RECAPTCHA_ACTION, action: result.action });
+        return { success: false, message: 'reCAPTCHA Verification Failed: action-mismatch', code: VerificationErrorCode.BindingMismatch, details: { ...details, reason: 'action-mismatch' } };
+    }
+    if (typeof result.score !== 'number' || result.score < RECAPTCHA_MIN_SCORE) {
+        logger.warn('reCAPTCHA v3 score too low.', { score: result.score, minScore: RECAPTCHA_MIN_SCORE, action: result.action });
+        return { success: false, message: 'reCAPTCHA Verification Failed: score-too-low', code: VerificationErrorCode.ScoreTooLow, details: { ...details, reason: 'score-too-low' } };
+    }
+    logger.info('reCAPTCHA v3 verification successful.', { score: result.score, action: result.action, hostname: result.hostname });
+    return { success: true, message: 'reCAPTCHA verification successful.', details };
+}
+
+const recaptchaSiteverify: SiteverifyProvider = {
+    name: 'reCAPTCHA',
+    url: RECAPTCHA_VERIFY_URL,
+    secret: RECAPTCHA_SECRET_KEY,
+    secretVariable: 'RECAPTCHA_SECRET_KEY',
+    timeoutMs: RECAPTCHA_TIMEOUT_MS,
+    checkSuccess: RECAPTCHA_VERSION === 'v3' ? checkRecaptchaV3 : undefined,
+};
+
+/**
+ * Verifies the reCAPTCHA token using the Google reCAPTCHA API.
+ * @param token - The reCAPTCHA token received from the frontend.
+ * @param context - Request context; the client IP is forwarded as `remoteip`.
+ * @returns VerifierResult - Verification success, a status message, and details.
+ */
+export async function verifyRecaptcha(token: string, context?: VerifierContext): Promise<VerifierResult> {
+    return verifySiteverifyToken(recaptchaSiteverify, token, context);
+}
+
+export const recaptchaVerifier: Verifier<string> = {
+    name: 'reCAPTCHA',
+    method: 'recaptcha',
+    extractPayload: extractCaptchaToken('recaptcha'),
+    isAvailable: () => !isCircuitOpen('reCAPTCHA'),
+    verify: verifyRecaptcha,
+};
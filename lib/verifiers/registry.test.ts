@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getVerifiers, registerVerifier, unregisterVerifier } from './registry';
+import type { Verifier } from './types';
+
+function testVerifier(name: string): Verifier<string> {
+    return {
+        name,
+        method: name.toLowerCase(),
+        extractPayload: () => undefined,
+        verify: async () => ({ success: true, message: `${name} verification successful.` }),
+    };
+}
+
+afterEach(() => {
+    getVerifiers().map((verifier) => verifier.name).forEach(unregisterVerifier);
+});
+
+describe('registerVerifier', () => {
+    it('appends by default and inserts before the named verifier', () => {
+        registerVerifier(testVerifier('First'));
+        registerVerifier(testVerifier('Last'));
+        registerVerifier(testVerifier('Middle'), { before: 'Last' });
+
+        expect(getVerifiers().map((verifier) => verifier.name)).toEqual(['First', 'Middle', 'Last']);
+    });
+
+    it('throws when `before` names no registered verifier', () => {
+        registerVerifier(testVerifier('World ID'));
+
+        expect(() => registerVerifier(testVerifier('Inhouse'), { before: 'WorldID' })).toThrow(/before "WorldID"/);
+        expect(getVerifiers().map((verifier) => verifier.name)).toEqual(['World ID']);
+    });
+
+    it('rejects duplicate names', () => {
+        registerVerifier(testVerifier('First'));
+
+        expect(() => registerVerifier(testVerifier('First'))).toThrow(/already registered/);
+    });
+});
@@ -0,0 +1,84 @@
+import type { Verifier } from './types';
+import { logger } from '@/lib/logger';
+
+// Ordered list of verifiers. Index 0 is the primary verifier, the rest are fallbacks.
+const verifiers: Verifier<any>[] = [];
+
+export interface RegisterOptions {
+    // Insert before the verifier with this name instead of appending. It must already be registered.
+    before?: string;
+}
+
+/**
+ * An app-level verifier (listed in `verifiers.ts` in the project root) and its placement.
+ */
+export interface VerifierRegistration extends RegisterOptions {
+    verifier: Verifier<any>;
+}
+
+/**
+ * Adds a verifier to the registry. Order determines primary/fallback priority.
+ * @param verifier - The verifier to register. Names must be unique.
+ * @param options - Optional placement relative to an existing verifier.
+ * @throws If the name is taken or `before` names no registered verifier.
+ */
+export function registerVerifier<P>(verifier: Verifier<P>, options: RegisterOptions = {}): void {
+    if (verifiers.some((v) => v.name === verifier.name)) {
+        throw new Error(`Verifier "${verifier.name}" is already registered.`);
+    }
+    if (!options.before) {
+        verifiers.push(verifier);
+        return;
+    }
+    const index = verifiers.findIndex((v) => v.name === options.before);
+    if (index === -1) {
+        const registered = verifiers.map((v) => `"${v.name}"`).join(', ') || 'none';
+        throw new Error(`Cannot register verifier "${verifier.name}" before "${options.before}": no such verifier is registered (registered: ${registered}).`);
+    }
+    verifiers.splice(index, 0, verifier);
+}
+
+/**
+ * Removes a verifier from the registry by name.
+ * @returns true if a verifier was removed.
+ */
+export function unregisterVerifier(name: string): boolean {
+    const index = verifiers.findIndex((v) => v.name === name);
+    if (index === -1) {
+        return false;
+    }
+    verifiers.splice(index, 1);
+    return true;
+}
+
+/**
+ * Returns the registered verifiers in priority order.
+ */
+export function getVerifiers(): readonly Verifier<any>[] {
+    return verifiers;
+}
+
+// Name of the verifier that was effective primary on the last health-ordered lookup, for switch logging.
+let effectivePrimary: string | null = null;
+
+/**
+ * Returns the verifiers in priority order with unavailable ones (e.g. circuit open) moved to the back,
+ * so a healthy fallback is promoted to primary while the configured primary is degraded.
+ * The order reverts automatically once the provider recovers. Switches are logged.
+ */
+export function getVerifiersByHealth(): readonly Verifier<any>[] {
+    const availability = verifiers.map((verifier) => ({ verifier, available: !verifier.isAvailable || verifier.isAvailable() }));
+    const ordered = [
+        ...availability.filter((entry) => entry.available),
+        ...availability.filter((entry) => !entry.available),
+    ].map((entry) => entry.verifier);
+
+    const primary = ordered[0]?.name ?? null;
+    if (effectivePrimary !== null && primary !== effectivePrimary) {
+        const configured = verifiers[0]?.name;
+        const reason = primary === configured ? 'recovered' : 'degraded';
+        logger.warn(`Primary verifier switched from ${effectivePrimary} to ${primary} (${configured} ${reason}).`, { from: effectivePrimary, to: primary, configured, reason });
+    }
+    effectivePrimary = primary;
+    return ordered;
+}
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { VerificationErrorCode } from '@/lib/verification-errors';
+import { verifySiteverifyToken, type SiteverifyProvider } from './siteverify';
+
+const provider: SiteverifyProvider = {
+    name: 'Example',
+    url: 'https://example.com/siteverify',
+    secret: 'secret',
+    secretVariable: 'EXAMPLE_SECRET_KEY',
+    params: { sitekey: 'site' },
+};
+
+function stubSiteverify(body: unknown) {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(body), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('verifySiteverifyToken', () => {
+    it('posts the token, secret, client IP and extra params as a form', async () => {
+        const fetchMock = stubSiteverify({ success: true, challenge_ts: new Date().toISOString() });
+
+        const result = await verifySiteverifyToken(provider, 'token', { clientIp: '203.0.113.7' });
+        expect(result).toMatchObject({ success: true, message: 'Example verification successful.' });
+
+        const body = new URLSearchParams(fetchMock.mock.calls[0][1].body);
+        expect(Object.fromEntries(body)).toEqual({ sitekey: 'site', secret: 'secret', response: 'token', remoteip: '203.0.113.7' });
+    });
+
+    it('maps provider error codes and records the failure reason', async () => {
+        stubSiteverify({ success: false, 'error-codes': ['timeout-or-duplicate'] });
+
+        const result = await verifySiteverifyToken({ ...provider, failureReason: () => 'custom' }, 'token');
+        expect(result).toMatchObject({ success: false, code: VerificationErrorCode.TokenExpired, details: { reason: 'custom' } });
+    });
+
+    it('rejects challenges without a timestamp before provider checks run', async () => {
+        stubSiteverify({ success: true });
+        const checkSuccess = vi.fn();
+
+        const result = await verifySiteverifyToken({ ...provider, checkSuccess }, 'token');
+        expect(result).toMatchObject({ success: false, details: { reason: 'challenge-ts-missing' } });
+        expect(checkSuccess).not.toHaveBeenCalled();
+    });
+
+    it('treats a malformed response as the provider being unavailable', async () => {
+        stubSiteverify({ success: 'yes' });
+
+        const result = await verifySiteverifyToken(provider, 'token');
+        expect(result).toMatchObject({ success: false, code: VerificationErrorCode.UpstreamUnavailable });
+    });
+
+    it('does not call the provider without a secret', async () => {
+        const fetchMock = stubSiteverify({ success: true });
+
+        const result = await verifySiteverifyToken({ ...provider, secret: undefined }, 'token');
+        expect(result).toMatchObject({ success: false, code: VerificationErrorCode.Misconfigured });
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
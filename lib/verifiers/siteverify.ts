@@ -0,0 +1,95 @@
+import type { VerifierContext, VerifierResult } from './types';
+import { upstreamFetch } from '@/lib/upstream';
+import { logger } from '@/lib/logger';
+import { VerificationErrorCode, errorCodeFromProvider } from '@/lib/verification-errors';
+import { captchaDetailsSchema } from '@/lib/verification-schema';
+import type { CaptchaVerificationDetails } from '@/types';
+import { checkCaptchaBinding } from './captcha-checks';
+
+/**
+ * A CAPTCHA provider's siteverify endpoint (reCAPTCHA, hCaptcha and Turnstile share the same protocol).
+ */
+export interface SiteverifyProvider {
+    // Display name, also the upstream circuit breaker name (e.g. 'Turnstile').
+    name: string;
+    url: string;
+    // Secret key, or undefined if not configured.
+    secret: string | undefined;
+    // Environment variable holding the secret, named in the misconfiguration message.
+    secretVariable: string;
+    // Optional: Per-attempt timeout in milliseconds. Defaults to UPSTREAM_TIMEOUT_MS.
+    timeoutMs?: number;
+    // Optional: Form fields sent in addition to `secret`, `response` and `remoteip` (e.g. hCaptcha's `sitekey`).
+    params?: Record<string, string>;
+    // Optional: Further checks of a response that passed `success` and the binding checks (e.g. reCAPTCHA v3 score).
+    // Returns the verifier result, or null to accept the response as is.
+    checkSuccess?: (result: CaptchaVerificationDetails) => VerifierResult | null;
+    // Optional: `reason` recorded in the details of a rejected token, derived from the provider's error codes.
+    failureReason?: (errorCodes: string[]) => string | undefined;
+}
+
+/**
+ * Verifies a CAPTCHA token against the provider's siteverify API, then checks the solved challenge
+ * is bound to our site (see `checkCaptchaBinding`).
+ * @param provider - The provider's endpoint, secret and provider-specific checks.
+ * @param token - The CAPTCHA token received from the frontend.
+ * @param context - Request context; the client IP is forwarded as `remoteip`.
+ * @returns VerifierResult - Verification success, a status message, and details.
+ */
+export async function verifySiteverifyToken(provider: SiteverifyProvider, token: string, context?: VerifierContext): Promise<VerifierResult> {
+    const { name } = provider;
+    if (!token) {
+        return { success: false, message: `${name} token not provided in request body.`, code: VerificationErrorCode.MissingPayload };
+    }
+    if (!provider.secret) {
+        return { success: false, message: `${name} Secret Key (${provider.secretVariable}) not configured on the server.`, code: VerificationErrorCode.Misconfigured };
+    }
+
+    // Prepare the payload for the siteverify API (application/x-www-form-urlencoded)
+    const params = new URLSearchParams({
+        ...provider.params,
+        secret: provider.secret,
+        response: token,
+    });
+    if (context?.clientIp) {
+        params.set('remoteip', context.clientIp);
+    }
+
+    let result: CaptchaVerificationDetails;
+    try {
+        const response = await upstreamFetch(name, provider.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: params.toString(),
+        }, { timeoutMs: provider.timeoutMs });
+
+        result = captchaDetailsSchema.parse(await response.json());
+    } catch (error: unknown) {
+        logger.error(`Error connecting to ${name} API.`, { error });
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return { success: false, message: `API Connection Error: ${errorMessage}`, code: VerificationErrorCode.UpstreamUnavailable };
+    }
+
+    if (result.success !== true) {
+        const errorCodes = result['error-codes'] || ['unknown'];
+        logger.warn(`${name} verification failed.`, { errorCodes });
+        const reason = provider.failureReason?.(errorCodes);
+        return { success: false, message: `${name} Verification Failed: ${errorCodes.join(', ')}`, code: errorCodeFromProvider(errorCodes), details: reason ? { ...result, reason } : result };
+    }
+
+    // Reject tokens solved on another site or too long ago
+    const bindingFailure = checkCaptchaBinding(result);
+    if (bindingFailure) {
+        logger.warn(`${name} verification failed.`, { reason: bindingFailure, hostname: result.hostname, challenge_ts: result.challenge_ts });
+        return { success: false, message: `${name} Verification Failed: ${bindingFailure}`, code: errorCodeFromProvider([bindingFailure]), details: { ...result, reason: bindingFailure } };
+    }
+
+    const checked = provider.checkSuccess?.(result);
+    if (checked) {
+        return checked;
+    }
+    logger.info(`${name} verification successful.`, { hostname: result.hostname, challenge_ts: result.challenge_ts });
+    return { success: true, message: `${name} verification successful.`, details: result };
+}
@@ -0,0 +1,38 @@
+import type { Verifier, VerifierContext, VerifierResult } from './types';
+import { isCircuitOpen } from '@/lib/upstream';
+import { serverConfig } from '@/lib/config';
+import { extractCaptchaToken } from './captcha-checks';
+import { verifySiteverifyToken, type SiteverifyProvider } from './siteverify';
+
+// Cloudflare Turnstile Secret Key (Keep this secret!)
+const TURNSTILE_SECRET_KEY = serverConfig.TURNSTILE_SECRET_KEY;
+
+const TURNSTILE_VERIFY_URL = 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+// Optional: Per-attempt timeout for Turnstile calls in milliseconds. Defaults to UPSTREAM_TIMEOUT_MS.
+const TURNSTILE_TIMEOUT_MS = serverConfig.TURNSTILE_TIMEOUT_MS;
+
+const turnstileSiteverify: SiteverifyProvider = {
+    name: 'Turnstile',
+    url: TURNSTILE_VERIFY_URL,
+    secret: TURNSTILE_SECRET_KEY,
+    secretVariable: 'TURNSTILE_SECRET_KEY',
+    timeoutMs: TURNSTILE_TIMEOUT_MS,
+};
+
+/**
+ * Verifies the Turnstile token using the Cloudflare siteverify API.
+ * @param token - The Turnstile token received from the frontend.
+ * @param context - Request context; the client IP is forwarded as `remoteip`.
+ * @returns VerifierResult - Verification success, a status message, and details.
+ */
+export async function verifyTurnstile(token: string, context?: VerifierContext): Promise<VerifierResult> {
+    return verifySiteverifyToken(turnstileSiteverify, token, context);
+}
+
+export const turnstileVerifier: Verifier<string> = {
+    name: 'Turnstile',
+    method: 'turnstile',
+    extractPayload: extractCaptchaToken('turnstile'),
+    isAvailable: () => !isCircuitOpen('Turnstile'),
+    verify: verifyTurnstile,
+};
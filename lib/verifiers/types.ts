@@ -0,0 +1,46 @@
+import type { ZodRawShape } from 'zod';
+import type { VerificationErrorCode } from '@/lib/verification-errors';
+import type { VerificationDetails } from '@/lib/verification-schema';
+
+/**
+ * Structured outcome of a single verifier run.
+ */
+export interface VerifierResult {
+    success: boolean;
+    // Human-readable status message, returned to the client as `message` or `error`.
+    message: string;
+    // Machine-readable failure code returned to the client. Set on every failure.
+    code?: VerificationErrorCode;
+    // Optional: Raw or derived details from the provider (e.g. siteverify response).
+    details?: VerificationDetails;
+    // Optional: Strength of the credential used (e.g. World ID 'orb' or 'device'). Recorded in the session.
+    verificationLevel?: string;
+}
+
+/**
+ * Request-level information available to verifiers.
+ */
+export interface VerifierContext {
+    // Best-effort client IP (forwarded to providers as `remoteip`), or null if unknown.
+    clientIp: string | null;
+}
+
+/**
+ * A pluggable verification method used by the /api/verify-captcha route.
+ * The route iterates registered verifiers in order; the first one with a payload that succeeds wins.
+ */
+export interface Verifier<P = unknown> {
+    // Display name used in logs and error messages (e.g. 'World ID').
+    name: string;
+    // Method identifier reported back to the client (e.g. 'world_id', 'recaptcha').
+    method: string;
+    // Optional: zod shapes of request body fields this verifier reads beyond `idkit_response` and
+    // `captcha_token`. Other unknown fields are rejected before any verifier runs.
+    bodySchema?: ZodRawShape;
+    // Pulls this verifier's payload out of the validated request body. Returns undefined if absent.
+    extractPayload: (body: Record<string, any>) => P | undefined;
+    // Optional: Returns false while the verifier should be skipped (e.g. upstream circuit open).
+    isAvailable?: () => boolean;
+    // Verifies the extracted payload against the upstream provider.
+    verify: (payload: P, context: VerifierContext) => Promise<VerifierResult>;
+}
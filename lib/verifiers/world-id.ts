@@ -0,0 +1,109 @@
+import type { Verifier, VerifierResult } from './types';
+import { upstreamFetch, isCircuitOpen } from '@/lib/upstream';
+import { logger } from '@/lib/logger';
+import { serverConfig } from '@/lib/config';
+import { reserveNullifierUse } from '@/lib/nullifier-store';
+import { VerificationErrorCode } from '@/lib/verification-errors';
+
+// Your World ID Application ID (should match the one used in the frontend IDKitWidget).
+const WLD_APP_ID = serverConfig.NEXT_PUBLIC_WLD_APP_ID;
+// Your World ID Action ID (should match the one used in the frontend IDKitWidget).
+const WLD_ACTION_ID = serverConfig.NEXT_PUBLIC_WLD_ACTION_ID;
+
+const WORLD_ID_VERIFY_URL = `https://developer.worldcoin.org/api/v2/verify/${WLD_APP_ID}`;
+// Developer Portal error codes meaning this human already verified for the action.
+const WORLD_ID_REPLAY_CODES = ['max_verifications_reached', 'exceeded_max_verifications', 'already_verified'];
+// Optional: Per-attempt timeout for World ID calls in milliseconds. Defaults to UPSTREAM_TIMEOUT_MS.
+const WORLD_ID_TIMEOUT_MS = serverConfig.WORLD_ID_TIMEOUT_MS;
+
+/**
+ * Expected shape of the response object from the World ID Kit frontend component (`IDKitWidget`).
+ */
+export interface IDKitResponse {
+    merkle_root: string;
+    nullifier_hash: string;
+    proof: string;
+    credential_type: string;
+    verification_level?: string; // IDKit v2 name for credential_type
+    signal?: string; // Optional: Include signal if used in the frontend widget
+}
+
+/**
+ * Verifies the World ID proof using the World Developer Portal API.
+ * @param idkitResponse - The response object received from the frontend IDKitWidget.
+ * @returns VerifierResult - Verification success and a status message.
+ */
+export async function verifyWorldID(idkitResponse: IDKitResponse): Promise<VerifierResult> {
+    if (!idkitResponse) {
+        return { success: false, message: 'World ID proof (idkit_response) not provided in request body.', code: VerificationErrorCode.MissingPayload };
+    }
+    // Check server configuration again, in case env vars were loaded after initial check
+    if (!WLD_APP_ID || !WLD_ACTION_ID) {
+        return { success: false, message: 'World ID environment variables (NEXT_PUBLIC_WLD_APP_ID, NEXT_PUBLIC_WLD_ACTION_ID) not configured on the server.', code: VerificationErrorCode.Misconfigured };
+    }
+
+    // Reserve a use before calling the World API, so concurrent requests with the same proof cannot both
+    // pass; the reservation is released below if verification fails
+    const reservation = await reserveNullifierUse(WLD_ACTION_ID, idkitResponse.nullifier_hash);
+    if (!reservation) {
+        logger.warn('World ID verification rejected: nullifier already used for this action.', { action: WLD_ACTION_ID });
+        return { success: false, message: 'World ID Verification Failed: This proof has already been used.', code: VerificationErrorCode.Replay };
+    }
+    const releaseReservation = () => reservation.release()
+        .catch((error: unknown) => logger.error('Failed to release nullifier reservation.', { error }));
+
+    // Prepare the payload for the World /verify API
+    // This includes the proof details received from the frontend, plus the server-side Action ID.
+    // The signal received from the frontend should also be included if provided.
+    const payloadToSend = {
+        ...idkitResponse, // Spread the received proof fields
+        action: WLD_ACTION_ID, // Use the server-side Action ID for verification
+        signal: idkitResponse.signal ?? '', // Use signal from frontend if present, otherwise empty string
+    };
+
+    try {
+        const verifyRes = await upstreamFetch('World ID', WORLD_ID_VERIFY_URL, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(payloadToSend),
+        }, { timeoutMs: WORLD_ID_TIMEOUT_MS });
+
+        const responseBody = await verifyRes.json(); // Always parse JSON to get details
+
+        if (verifyRes.ok) {
+            // Status code 200 indicates successful verification
+            const verificationLevel = idkitResponse.verification_level ?? idkitResponse.credential_type;
+            logger.info('World ID verification successful.', { verificationLevel });
+            return {
+                success: true,
+                message: 'World ID verification successful.',
+                details: { verification_level: verificationLevel },
+                verificationLevel,
+            };
+        } else {
+            // Verification failed (e.g., 400 Bad Request)
+            await releaseReservation();
+            const detail = responseBody?.detail || `Verification failed with status ${verifyRes.status}`;
+            logger.warn('World ID verification failed.', { status: verifyRes.status, detail, code: responseBody?.code });
+            // Hitting the action's verification limit in the Developer Portal is a replay, like our nullifier check
+            const code = WORLD_ID_REPLAY_CODES.includes(responseBody?.code) ? VerificationErrorCode.Replay : VerificationErrorCode.ProviderRejected;
+            return { success: false, message: `World ID Verification Failed: ${detail}`, code };
+        }
+    } catch (error: unknown) {
+        logger.error('Error connecting to World ID verify API.', { error });
+        await releaseReservation();
+        // Explicitly handle potential errors during fetch or JSON parsing
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return { success: false, message: `API Connection Error: ${errorMessage}`, code: VerificationErrorCode.UpstreamUnavailable };
+    }
+}
+
+export const worldIdVerifier: Verifier<IDKitResponse> = {
+    name: 'World ID',
+    method: 'world_id',
+    extractPayload: (body) => body.idkit_response as IDKitResponse | undefined,
+    isAvailable: () => !isCircuitOpen('World ID'),
+    verify: verifyWorldID,
+};
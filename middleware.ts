@@ -0,0 +1,12 @@
+import { createHumanMiddleware } from "@/lib/human-middleware"
+
+// Pages that require a human session. Unverified visitors are sent to /verify and back afterwards.
+export default createHumanMiddleware({
+  protectedPaths: ["/congratulations"],
+  verifyPath: "/verify",
+})
+
+export const config = {
+  // Skip Next.js internals; remaining exclusions are handled by the middleware itself
+  matcher: ["/((?!_next/static|_next/image).*)"],
+}
@@ -1,4 +1,8 @@
 import type React from "react"
+import type { VerificationErrorCode } from "./lib/verification-errors"
+import type { AssuranceLevel } from "./lib/assurance"
+import type { CaptchaDetails, PolicyProgress, VerificationDetails } from "./lib/verification-schema"
+import type { WidCaptchaError } from "./wid-captcha-context"
 
 // Keep original props for reference, but primary config comes from context/env
 export interface WidCaptchaProps {
@@ -10,7 +14,8 @@ export interface WidCaptchaProps {
   // CAPTCHA props - Keep for potential overrides, though context is preferred
   recaptchaSiteKey?: string
   hcaptchaSiteKey?: string // Add hCaptcha key prop
-  onSuccessCaptcha?: (token: string, provider: 'recaptcha' | 'hcaptcha') => void // Unified success callback
+  turnstileSiteKey?: string
+  onSuccessCaptcha?: (token: string, provider: CaptchaProvider) => void // Unified success callback
 
   // Common props
   onVerificationComplete: (result: VerificationResult) => void
@@ -19,15 +24,46 @@ export interface WidCaptchaProps {
   children?: React.ReactNode
 }
 
+// Supported CAPTCHA providers
+export type CaptchaProvider = "recaptcha" | "hcaptcha" | "turnstile";
+
+// Load state of a CAPTCHA provider's script ("failed" triggers failover to the next provider)
+export type CaptchaScriptStatus = "loading" | "loaded" | "failed";
+
 // Defines the method used for successful verification, or none
-export type VerificationMethod = "world_id" | "recaptcha" | "hcaptcha" | "none";
-
-// Structure of the result passed to onVerificationComplete
-export interface VerificationResult {
-  success: boolean
-  method: VerificationMethod
-  data: any // Message string or error data
-  details?: Record<string, any>; // Optional: Additional details from verification API (like score)
+export type VerificationMethod = "world_id" | CaptchaProvider | "none";
+
+// Which side of the widget to promote: World ID or the CAPTCHA fallback
+export type PreferredVerifier = "world_id" | "captcha";
+
+// reCAPTCHA mode: v2 renders the checkbox, v3 runs invisibly and returns a score
+export type RecaptchaVersion = "v2" | "v3";
+
+// Details returned by the CAPTCHA siteverify APIs (plus any fields the server adds), see lib/verification-schema
+export type CaptchaVerificationDetails = CaptchaDetails
+
+// Structure of the result passed to onVerificationComplete. Narrow on `success`.
+export type VerificationResult = VerificationSuccess | VerificationFailure
+
+export interface VerificationSuccess {
+  success: true
+  method: Exclude<VerificationMethod, "none">
+  message: string
+  details?: VerificationDetails // Optional: Additional details from verification API (like score)
+  attemptedMethods: string[] // Methods the server tried, in order
+  assuranceLevel?: AssuranceLevel // Strength of the caller's verification, including an earlier stronger session
+  sessionExpiresAt?: number // Set when the server issued a human session (seconds since the epoch)
+  requirements?: PolicyProgress // Steps of the server's verification policy, if it has one
+}
+
+export interface VerificationFailure {
+  success: false
+  method: VerificationMethod // "none" if no verifier ran
+  error: string
+  code: VerificationErrorCode // Why verification failed
+  details?: VerificationDetails
+  attemptedMethods: string[]
+  requirements?: PolicyProgress // With code "requirements_unmet": the steps still to complete
 }
 
 // Defines the shape of the context provided by WidCaptchaProvider
@@ -35,15 +71,28 @@ export interface WidCaptchaContextType {
   isVerified: boolean
   isVerifying: boolean
   verificationMethod: VerificationMethod
-  error: Error | null
+  // Strongest verification so far ("none" < "captcha" < "world_id_device" < "world_id_orb"), see lib/assurance
+  assuranceLevel: AssuranceLevel
+  // Expiry of the server's human session (seconds since the epoch), or null if none was issued (e.g. without SESSION_SECRET)
+  sessionExpiresAt: number | null
+  error: WidCaptchaError | null // Carries `code` and `retryable`
   // Updated verifyProof to accept a generic captcha_token
-  verifyProof: (payload: { idkit_response?: any; captcha_token?: string }) => Promise<VerificationResult>
+  verifyProof: (payload: { idkit_response?: any; captcha_token?: string; captcha_provider?: CaptchaProvider; action?: string }) => Promise<VerificationResult>
   reset: () => void
+  // Progress of a multi-step verification policy (set once the server reports it, cleared by reset)
+  requirements: PolicyProgress | null
   isCaptchaScriptLoaded: boolean // Renamed from isRecaptchaScriptLoaded
+  // Verifier the server currently treats as primary (switches automatically while a provider is degraded)
+  preferredVerifier: PreferredVerifier | null
+  // Methods whose upstream provider is currently unavailable
+  unavailableMethods: VerificationMethod[]
   // Add captcha provider and site keys to context for components
-  captchaProvider: 'recaptcha' | 'hcaptcha';
+  captchaProvider: CaptchaProvider;
   recaptchaSiteKey: string | null;
   hcaptchaSiteKey: string | null;
+  turnstileSiteKey: string | null;
+  recaptchaVersion: RecaptchaVersion;
+  recaptchaAction: string;
   // Expose appId and actionId from provider
   appId: string | null;
   actionId: string | null;
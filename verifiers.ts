@@ -0,0 +1,7 @@
+import type { VerifierRegistration } from "@/lib/verifiers"
+
+// App-specific verifiers, registered by lib/verifiers after the built-in ones (no route changes needed).
+// Verifier modules listed here must not import values from "@/lib/verifiers", which loads this file.
+export const appVerifiers: VerifierRegistration[] = [
+  // { verifier: inhouseVerifier, before: "World ID" }, // `before` makes it the primary verifier
+]
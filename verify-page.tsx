@@ -0,0 +1,31 @@
+"use client"
+
+import { useCallback } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { WidCaptcha } from "./wid-captcha"
+import { sanitizeReturnTo } from "@/lib/utils"
+import type { VerificationResult } from "./types"
+
+// Verification page used by the human middleware. Sends the visitor back to `returnTo` once verified.
+export default function VerifyPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const returnTo = sanitizeReturnTo(searchParams.get("returnTo"))
+
+  const handleVerificationComplete = useCallback((result: VerificationResult) => {
+    // Only with a session cookie (set by /api/verify-captcha) does the middleware let this navigation through;
+    // without one (SESSION_SECRET unset) it would send the visitor straight back here
+    if (result.success && result.sessionExpiresAt) {
+      router.replace(returnTo)
+    }
+  }, [router, returnTo])
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen p-4">
+      <WidCaptcha
+        signalDescription="Please verify you're a human to continue"
+        onVerificationComplete={handleVerificationComplete}
+      />
+    </div>
+  )
+}
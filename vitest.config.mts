@@ -0,0 +1,17 @@
+import { fileURLToPath } from "node:url"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", ".next/**"],
+    // lib/config reads the environment once at import; tests run without a .env file
+    env: {
+      SESSION_SECRET: "test-session-secret-0123456789abcdef",
+    },
+  },
+})
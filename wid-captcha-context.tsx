@@ -1,19 +1,30 @@
 "use client"
 
 import type React from "react"
-import { createContext, useContext, useState, useCallback, useEffect } from "react"
-import type { VerificationMethod, VerificationResult, WidCaptchaContextType } from "./types"
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef } from "react"
+import type { CaptchaProvider, CaptchaScriptStatus, PreferredVerifier, RecaptchaVersion, VerificationMethod, VerificationResult, WidCaptchaContextType } from "./types"
+import { VerificationErrorCode, isRetryableErrorCode } from "@/lib/verification-errors"
+import { sessionStatusSchema, verificationApiResponseSchema } from "@/lib/verification-schema"
+import type { PolicyProgress, VerificationApiResponse } from "@/lib/verification-schema"
+import { buildTimePublicConfig, publicConfigSchema } from "@/lib/public-config"
+import { getAssuranceLevel, maxAssuranceLevel } from "@/lib/assurance"
+import type { AssuranceLevel } from "@/lib/assurance"
+import type { PublicConfig } from "@/lib/public-config"
 
-// --- Environment Variables (Client-Side) ---
-const CAPTCHA_PROVIDER = (process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER || 'recaptcha') as 'recaptcha' | 'hcaptcha';
-const RECAPTCHA_SITE_KEY = process.env.NEXT_PUBLIC_RECAPTCHA_SITE_KEY;
-const HCAPTCHA_SITE_KEY = process.env.NEXT_PUBLIC_HCAPTCHA_SITE_KEY;
+// Runtime public configuration (provider, site keys, World ID IDs), see app/api/verify-captcha/config
+const PUBLIC_CONFIG_URL = "/api/verify-captcha/config";
+
+// How often to refresh provider health from the server
+const HEALTH_POLL_INTERVAL_MS = 60_000;
 
 declare global {
   interface Window {
     grecaptcha?: {
       render: (container: string | HTMLElement, parameters: object) => number
       reset?: (widgetId?: number) => void
+      // reCAPTCHA v3 (invisible, score-based)
+      ready?: (callback: () => void) => void
+      execute?: (siteKey: string, options: { action: string }) => Promise<string>
     };
     // Add hCaptcha type to window
     hcaptcha?: {
@@ -22,17 +33,52 @@ declare global {
       getResponse: (widgetId?: string) => string; // Gets the response token
       execute: (widgetId?: string, opts?: { async: boolean }) => Promise<void>;
     };
+    // Cloudflare Turnstile (explicit rendering)
+    turnstile?: {
+      render: (container: string | HTMLElement, params: object) => string; // Returns widget ID
+      reset: (widgetId?: string) => void;
+      remove: (widgetId?: string) => void;
+      getResponse: (widgetId?: string) => string | undefined;
+    };
     // Callback for explicit reCAPTCHA load
     onloadCallback?: () => void;
   }
 }
 
-interface ApiVerificationResponse {
-  success: boolean
-  message?: string
-  error?: string
-  method?: VerificationMethod
-  details?: Record<string, any>; // Include details from API response
+// Verification failure with a machine-readable code, exposed as the context `error`
+export class WidCaptchaError extends Error {
+  code: VerificationErrorCode
+  // True if trying again (with a fresh challenge) may succeed, e.g. an expired token or an outage
+  retryable: boolean
+  // Methods the server tried before failing (empty if no verifier ran)
+  attemptedMethods: string[]
+
+  constructor(message: string, code: VerificationErrorCode, attemptedMethods: string[] = []) {
+    super(message)
+    this.name = "WidCaptchaError"
+    this.code = code
+    this.retryable = isRetryableErrorCode(code)
+    this.attemptedMethods = attemptedMethods
+  }
+}
+
+// Error raised when the verify endpoint rate limits the client (HTTP 429)
+export class RateLimitError extends WidCaptchaError {
+  retryAfterSeconds: number
+
+  constructor(message: string, retryAfterSeconds: number) {
+    super(message, VerificationErrorCode.RateLimited)
+    this.name = "RateLimitError"
+    this.retryAfterSeconds = retryAfterSeconds
+  }
+}
+
+// Random request ID; `crypto.randomUUID` only exists in secure contexts (HTTPS or localhost)
+function createIdempotencyKey(): string {
+  if (typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID()
+  }
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, "0")).join("")
 }
 
 interface InternalWidCaptchaContextType extends WidCaptchaContextType {
@@ -41,47 +87,214 @@ interface InternalWidCaptchaContextType extends WidCaptchaContextType {
   // Add hcaptcha site key to internal context
   recaptchaSiteKey: string | null
   hcaptchaSiteKey: string | null
-  captchaProvider: 'recaptcha' | 'hcaptcha' // Explicitly store the provider
+  turnstileSiteKey: string | null
+  captchaProvider: CaptchaProvider // Explicitly store the provider
+  // Enabled providers in failover order, starting with `captchaProvider`
+  captchaProviders: CaptchaProvider[]
+  // False until the runtime configuration has been received
+  isConfigLoaded: boolean
+  // Script load state per provider, and a loader for widgets that use another provider than the default
+  captchaScriptStatus: Partial<Record<CaptchaProvider, CaptchaScriptStatus>>
+  loadCaptchaScript: (provider: CaptchaProvider) => void
+  // Re-reads the session status and clears the verification if the server session is gone
+  refreshSession: () => Promise<void>
 }
 
 const WidCaptchaContext = createContext<InternalWidCaptchaContextType | undefined>(undefined)
 
 export const WidCaptchaProvider: React.FC<{
-  appId: string
-  actionId: string
-  // Keep props separate for potential direct use, though env vars are primary
+  // Public configuration from a server component (`publicConfig` from lib/config).
+  // When omitted, it is fetched from `configUrl` on mount.
+  config?: PublicConfig
+  // Where to fetch the configuration from. `null` uses the build-time NEXT_PUBLIC_* values instead.
+  configUrl?: string | null
+  // Default CAPTCHA provider of all widgets below, overriding the configuration. `WidCaptcha` can override it again.
+  captchaProvider?: CaptchaProvider
+  // Providers to fall over to, in order, when a script fails to load or a widget keeps failing.
+  // Defaults to the configured list (CAPTCHA_PROVIDERS), or just `captchaProvider` if that is set.
+  captchaProviders?: CaptchaProvider[]
+  // Individual props override the matching configuration values
+  appId?: string
+  actionId?: string
   recaptchaSiteKey?: string
   hcaptchaSiteKey?: string
+  turnstileSiteKey?: string
+  recaptchaVersion?: RecaptchaVersion
+  recaptchaAction?: string
   onVerificationComplete?: (result: VerificationResult) => void
   onError?: (error: Error) => void
+  // Trace context headers for the verify request, e.g. from `propagation.inject` of a browser OpenTelemetry SDK.
+  // Without it, no trace headers are sent and the server starts its own trace.
+  getTraceHeaders?: () => Record<string, string>
   children: React.ReactNode
 }> = ({
-  appId,
-  actionId,
+  config: configProp,
+  configUrl = PUBLIC_CONFIG_URL,
+  captchaProvider: captchaProviderProp,
+  captchaProviders: captchaProvidersProp,
+  appId: appIdProp,
+  actionId: actionIdProp,
   recaptchaSiteKey: recaptchaSiteKeyProp,
   hcaptchaSiteKey: hcaptchaSiteKeyProp,
+  turnstileSiteKey: turnstileSiteKeyProp,
+  recaptchaVersion: recaptchaVersionProp,
+  recaptchaAction: recaptchaActionProp,
   onVerificationComplete,
   onError,
+  getTraceHeaders,
   children,
 }) => {
-    // Use environment variables as primary source, allow props as override (optional)
-    const effectiveRecaptchaSiteKey = recaptchaSiteKeyProp || RECAPTCHA_SITE_KEY;
-    const effectiveHcaptchaSiteKey = hcaptchaSiteKeyProp || HCAPTCHA_SITE_KEY;
+    const [fetchedConfig, setFetchedConfig] = useState<PublicConfig | null>(null)
+
+    // Fetch the runtime configuration unless a server component passed it in
+    useEffect(() => {
+      if (configProp) return;
+      if (configUrl === null) {
+        setFetchedConfig(buildTimePublicConfig);
+        return;
+      }
+      let cancelled = false;
+
+      const fetchConfig = async () => {
+        try {
+          const response = await fetch(configUrl);
+          const parsed = publicConfigSchema.safeParse(await response.json());
+          if (!parsed.success) {
+            throw new Error(`Unexpected configuration response (status ${response.status})`);
+          }
+          if (!cancelled) setFetchedConfig(parsed.data);
+        } catch (configError) {
+          // Keep working with the values baked in at build time
+          console.warn("Failed to fetch verification config, using build-time values:", configError);
+          if (!cancelled) setFetchedConfig(buildTimePublicConfig);
+        }
+      };
+
+      fetchConfig();
+      return () => {
+        cancelled = true;
+      };
+    }, [configProp, configUrl])
+
+    const isConfigLoaded = !!(configProp ?? fetchedConfig);
+    const config = configProp ?? fetchedConfig ?? buildTimePublicConfig;
+
+    // Props override the configuration (optional)
+    const providerList = captchaProvidersProp ?? (captchaProviderProp ? [captchaProviderProp] : config.captchaProviders);
+    // Keyed by content so a new array literal on every render does not reload scripts
+    const providerListKey = providerList.join(",");
+    const captchaProviders = useMemo(() => providerListKey.split(",") as CaptchaProvider[], [providerListKey]);
+    const captchaProvider = captchaProviderProp ?? captchaProviders[0];
+    const appId = appIdProp || config.appId;
+    const actionId = actionIdProp || config.actionId;
+    const effectiveRecaptchaSiteKey = recaptchaSiteKeyProp || config.recaptchaSiteKey;
+    const effectiveHcaptchaSiteKey = hcaptchaSiteKeyProp || config.hcaptchaSiteKey;
+    const effectiveTurnstileSiteKey = turnstileSiteKeyProp || config.turnstileSiteKey;
+    const recaptchaVersion: RecaptchaVersion = recaptchaVersionProp ?? config.recaptchaVersion;
+    const recaptchaAction = recaptchaActionProp ?? config.recaptchaAction;
 
     const [isVerified, setIsVerified] = useState(false)
     const [isVerifying, setIsVerifying] = useState(false)
     const [verificationMethod, setVerificationMethod] = useState<VerificationMethod>("none")
-    const [error, setError] = useState<Error | null>(null)
-    const [isCaptchaScriptLoaded, setIsCaptchaScriptLoaded] = useState(false)
+    // Raised by stronger verifications (step-up); the ref lets a failed step-up keep the earlier verification
+    const [assuranceLevel, setAssuranceLevel] = useState<AssuranceLevel>("none")
+    const assuranceLevelRef = useRef<AssuranceLevel>("none")
+    const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null)
+    // Idempotency key per request body, so retrying the same token or proof reuses its key
+    const idempotencyKeysRef = useRef(new Map<string, string>())
+    const [error, setError] = useState<WidCaptchaError | null>(null)
+    const [requirements, setRequirements] = useState<PolicyProgress | null>(null)
+    // Script state per provider (scripts load on demand, see loadCaptchaScript). The ref lets
+    // load callbacks see the latest state.
+    const [captchaScriptStatus, setCaptchaScriptStatus] = useState<Partial<Record<CaptchaProvider, CaptchaScriptStatus>>>({})
+    const captchaScriptStatusRef = useRef(captchaScriptStatus)
+    const [preferredVerifier, setPreferredVerifier] = useState<PreferredVerifier | null>(null)
+    const [unavailableMethods, setUnavailableMethods] = useState<VerificationMethod[]>([])
 
-    // Load the correct CAPTCHA script
+    // Poll provider health so the widget can promote whichever option currently works
     useEffect(() => {
+      let cancelled = false;
+
+      const fetchHealth = async () => {
+        try {
+          const response = await fetch("/api/verify-captcha/health", { cache: "no-store" });
+          if (!response.ok || cancelled) return;
+          const health: {
+            primary: { method: string } | null
+            verifiers: { method: VerificationMethod; available: boolean }[]
+          } = await response.json();
+          if (cancelled) return;
+          setPreferredVerifier(health.primary ? (health.primary.method === "world_id" ? "world_id" : "captcha") : null);
+          setUnavailableMethods(health.verifiers.filter((v) => !v.available).map((v) => v.method));
+        } catch (healthError) {
+          // Health is advisory only; keep the current layout if it cannot be fetched
+          console.warn("Failed to fetch verification health:", healthError);
+        }
+      };
+
+      fetchHealth();
+      const interval = setInterval(fetchHealth, HEALTH_POLL_INTERVAL_MS);
+      return () => {
+        cancelled = true;
+        clearInterval(interval);
+      };
+    }, [])
+
+    // Reads the session status (the session cookie is HttpOnly) and restores a valid session's verification
+    // state. With `clearIfGone`, also drops the local verification once the server has no session.
+    const syncSession = useCallback(async (clearIfGone: boolean) => {
+      try {
+        const response = await fetch("/api/verify-captcha/session", { cache: "no-store" });
+        const parsed = sessionStatusSchema.safeParse(await response.json());
+        if (!parsed.success) return;
+        const session = parsed.data;
+        if (session.verified) {
+          // A verification that completed meanwhile may already be stronger
+          assuranceLevelRef.current = maxAssuranceLevel(assuranceLevelRef.current, session.assurance_level)
+          setAssuranceLevel(assuranceLevelRef.current)
+          setVerificationMethod((current) => current === "none" ? (session.method ?? "none") as VerificationMethod : current)
+          setSessionExpiresAt((current) => current ?? session.session_expires_at)
+          setIsVerified(true)
+        } else if (clearIfGone) {
+          assuranceLevelRef.current = "none"
+          setAssuranceLevel("none")
+          setVerificationMethod("none")
+          setSessionExpiresAt(null)
+          setIsVerified(false)
+        }
+      } catch (sessionError) {
+        // Keep the current state; the server still decides on every protected request
+        console.warn("Failed to fetch verification session:", sessionError);
+      }
+    }, [])
+
+    // Restore the verification state of an existing session on mount
+    useEffect(() => {
+      syncSession(false);
+    }, [syncSession])
+
+    const refreshSession = useCallback(() => syncSession(true), [syncSession])
+
+    // Load a CAPTCHA provider's script on demand (idempotent). Widgets call this for their own provider.
+    const loadCaptchaScript = useCallback((provider: CaptchaProvider) => {
+      // Blocked scripts are not retried; widgets have fallen over to the next provider
+      if (captchaScriptStatusRef.current[provider] === "failed") return;
+      const setStatus = (status: CaptchaScriptStatus) => {
+        if (captchaScriptStatusRef.current[provider] === status) return;
+        captchaScriptStatusRef.current = { ...captchaScriptStatusRef.current, [provider]: status };
+        setCaptchaScriptStatus(captchaScriptStatusRef.current);
+      };
 
       const loadScript = (src: string, checkLoaded: () => boolean, id: string) => {
 
-        if (checkLoaded() || document.getElementById(id)) {
-          setIsCaptchaScriptLoaded(true);
-          return null; // Already loaded or loading
+        if (checkLoaded()) {
+          setStatus("loaded");
+          return null; // Already loaded
+        }
+        if (document.getElementById(id)) {
+          // Loading; its onload/onerror handlers update the status. Tags added elsewhere are assumed to load.
+          if (!captchaScriptStatusRef.current[provider]) setStatus("loaded");
+          return null;
         }
 
         const script = document.createElement("script")
@@ -89,50 +302,57 @@ export const WidCaptchaProvider: React.FC<{
         script.src = src
         script.defer = true
         script.onerror = () => {
-          const loadError = new Error(`Failed to load ${CAPTCHA_PROVIDER} script from ${src}`)
+          const loadError = new WidCaptchaError(`Failed to load ${provider} script from ${src}`, VerificationErrorCode.ScriptLoadFailed)
+          setStatus("failed")
+          // Attempt to remove the failed script (so a later call retries)
+          const existingScript = document.getElementById(id);
+          if (existingScript) document.head.removeChild(existingScript);
+          // Widgets fall over to the next provider; only report an error once every provider failed
+          if (captchaProviders.some((other) => captchaScriptStatusRef.current[other] !== "failed")) {
+            console.warn("Script load error, falling over to the next CAPTCHA provider:", loadError);
+            return;
+          }
           console.error("Script load error:", loadError);
           setError(loadError)
           if (onError) {
             onError(loadError)
           }
-          setIsCaptchaScriptLoaded(false)
-          // Attempt to remove the failed script
-          const existingScript = document.getElementById(id);
-          if (existingScript) document.head.removeChild(existingScript);
         }
 
         // Specific onload handling
-        if (CAPTCHA_PROVIDER === 'recaptcha') {
+        if (provider === 'recaptcha') {
           // Use explicit onload callback for reCAPTCHA
           window.onloadCallback = () => {
-            setIsCaptchaScriptLoaded(true);
+            setStatus("loaded");
             delete window.onloadCallback;
           };
-        } else if (CAPTCHA_PROVIDER === 'hcaptcha') {
-          // hCaptcha loads globally, set loaded state once script tag added
+        } else if (provider === 'hcaptcha' || provider === 'turnstile') {
+          // hCaptcha and Turnstile load globally, set loaded state once script tag added
           // Verification of actual API readiness happens in the component using it
           script.onload = () => {
-            setIsCaptchaScriptLoaded(true);
+            setStatus("loaded");
           };
         }
 
+        setStatus("loading");
+
         document.head.appendChild(script);
-        return script; // Return the script element for cleanup
+        return script;
       };
 
-      let scriptElement: HTMLScriptElement | null = null;
-
-      if (CAPTCHA_PROVIDER === 'recaptcha') {
-        scriptElement = loadScript(
-          "https://www.google.com/recaptcha/api.js?onload=onloadCallback&render=explicit",
+      if (provider === 'recaptcha') {
+        // v3 binds the script to the site key; v2 renders the checkbox explicitly
+        const render = recaptchaVersion === 'v3' && effectiveRecaptchaSiteKey ? effectiveRecaptchaSiteKey : 'explicit';
+        loadScript(
+          `https://www.google.com/recaptcha/api.js?onload=onloadCallback&render=${encodeURIComponent(render)}`,
           () => {
             const recaptchaReady = !!window.grecaptcha;
             return recaptchaReady;
           },
           "recaptcha-script"
         );
-      } else if (CAPTCHA_PROVIDER === 'hcaptcha') {
-        scriptElement = loadScript(
+      } else if (provider === 'hcaptcha') {
+        loadScript(
           "https://js.hcaptcha.com/1/api.js",
           () => {
             const hcaptchaReady = !!window.hcaptcha;
@@ -140,62 +360,126 @@ export const WidCaptchaProvider: React.FC<{
           },
           "hcaptcha-script"
         );
+      } else if (provider === 'turnstile') {
+        loadScript(
+          "https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit",
+          () => {
+            const turnstileReady = !!window.turnstile;
+            return turnstileReady;
+          },
+          "turnstile-script"
+        );
       }
+      // Note: Scripts are never removed, other widgets may rely on them.
+    }, [onError, captchaProviders, recaptchaVersion, effectiveRecaptchaSiteKey]) // Changes only if onError or the CAPTCHA config changes (stable)
 
-      // Cleanup function
-      return () => {
-        // if (CAPTCHA_PROVIDER === 'recaptcha' && window.onloadCallback) {
-        //   delete window.onloadCallback;
-        // }
-        // Note: Removing the script tag itself might cause issues if multiple
-        // providers/widgets rely on it. Let's leave it loaded.
-        // if (scriptElement && scriptElement.parentNode) {
-        //   scriptElement.parentNode.removeChild(scriptElement);
-        // }
-      }
-    }, [onError]) // Rerun only if onError changes (stable)
+    // Load the default provider's script once the configuration is known
+    useEffect(() => {
+      // Wait for the runtime configuration so only the configured provider's script is loaded
+      if (!isConfigLoaded) return;
+      loadCaptchaScript(captchaProvider);
+    }, [isConfigLoaded, captchaProvider, loadCaptchaScript])
 
     // Updated API call function
-    const callVerificationApi = useCallback(async (payload: { idkit_response?: any; captcha_token?: string }) => {
+    const callVerificationApi = useCallback(async (payload: { idkit_response?: any; captcha_token?: string; captcha_provider?: CaptchaProvider; action?: string }) => {
       setIsVerifying(true)
       setError(null)
 
       if (!payload.idkit_response && !payload.captcha_token) {
-        const err = new Error("No verification payload (idkit_response or captcha_token) provided to callVerificationApi");
+        const err = new WidCaptchaError("No verification payload (idkit_response or captcha_token) provided to callVerificationApi", VerificationErrorCode.MissingPayload);
         setError(err);
         if (onError) onError(err);
         setIsVerifying(false);
-        return { success: false, method: "none", data: err.message } as VerificationResult;
+        return { success: false, method: "none", error: err.message, code: err.code, attemptedMethods: [] } satisfies VerificationResult;
       }
 
       try {
+        const body = JSON.stringify({
+          // Send both potential payloads, API route will decide based on priority/availability
+          idkit_response: payload.idkit_response ? {
+            ...payload.idkit_response,
+            signal: payload.idkit_response.signal ?? '',
+          } : undefined,
+          captcha_token: payload.captcha_token,
+          // Lets the server verify the token with the matching provider's secret
+          captcha_provider: payload.captcha_token ? (payload.captcha_provider ?? captchaProvider) : undefined,
+          // Selects the rule of the server's verification policy
+          action: payload.action,
+        })
+        let idempotencyKey = idempotencyKeysRef.current.get(body)
+        if (!idempotencyKey) {
+          idempotencyKey = createIdempotencyKey()
+          idempotencyKeysRef.current.set(body, idempotencyKey)
+        }
         const response = await fetch("/api/verify-captcha", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
+            // Lets the server return the original outcome if this exact request is retried
+            "Idempotency-Key": idempotencyKey,
+            // Continues this check's trace on the server (see lib/tracing)
+            ...getTraceHeaders?.(),
           },
-          body: JSON.stringify({
-            // Send both potential payloads, API route will decide based on priority/availability
-            idkit_response: payload.idkit_response ? {
-              ...payload.idkit_response,
-              signal: payload.idkit_response.signal ?? '',
-            } : undefined,
-            captcha_token: payload.captcha_token,
-          }),
+          body,
+        }).catch((fetchError: unknown) => {
+          throw new WidCaptchaError(`Could not reach the verification server: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`, VerificationErrorCode.NetworkError)
         })
 
-        const result: ApiVerificationResponse = await response.json()
+        // Proxies and crashed servers may answer with non-JSON error pages or another API version
+        const parsed = verificationApiResponseSchema.safeParse(await response.json().catch(() => null))
+        if (!parsed.success) {
+          throw new WidCaptchaError(
+            `Unexpected response from the verification server (status ${response.status})`,
+            response.status >= 500 ? VerificationErrorCode.InternalError : VerificationErrorCode.NetworkError,
+          )
+        }
+        const result: VerificationApiResponse = parsed.data
+        setRequirements(result.requirements ?? null)
+
+        if (!result.success && result.code === VerificationErrorCode.RateLimited) {
+          // Prefer the Retry-After header, fall back to the body field
+          const retryAfter = parseInt(response.headers.get("Retry-After") || "", 10) || result.retry_after || 60;
+          throw new RateLimitError(result.error, retryAfter)
+        }
+
+        if (!result.success && result.code === VerificationErrorCode.RequirementsUnmet) {
+          // A step of a multi-step policy passed; not an error, widgets render the remaining steps
+          if (assuranceLevelRef.current === "none") {
+            setVerificationMethod("none")
+            setIsVerified(false)
+          }
+          return {
+            success: false,
+            method: (result.method ?? "none") as VerificationMethod,
+            error: result.error,
+            code: result.code,
+            attemptedMethods: result.attempted_methods,
+            requirements: result.requirements,
+          } satisfies VerificationResult
+        }
 
-        if (response.ok && result.success) {
-          // Determine method from API response if provided, otherwise infer
-          const method: VerificationMethod = result.method || (payload.idkit_response ? "world_id" : CAPTCHA_PROVIDER);
+        if (result.success) {
+          // Custom server-side verifiers may report methods the client does not know about
+          const method = result.method as Exclude<VerificationMethod, "none">;
+          // Without `assurance_level` (optional in the schema), World ID counts as the weaker device level
+          const verifiedLevel = result.assurance_level ?? getAssuranceLevel(method)
+          assuranceLevelRef.current = maxAssuranceLevel(assuranceLevelRef.current, verifiedLevel)
+          setAssuranceLevel(assuranceLevelRef.current)
           setVerificationMethod(method)
+          // Absent when no session was issued, or when an existing stronger session was kept
+          if (result.session_expires_at) {
+            setSessionExpiresAt(result.session_expires_at)
+          }
           setIsVerified(true)
           const verificationResult: VerificationResult = {
             success: true,
-            method: method,
-            data: result.message || "Verification successful",
+            method,
+            message: result.message,
             details: result.details, // Pass along details
+            attemptedMethods: result.attempted_methods,
+            assuranceLevel: assuranceLevelRef.current,
+            sessionExpiresAt: result.session_expires_at,
+            requirements: result.requirements,
           }
           if (onVerificationComplete) {
             onVerificationComplete(verificationResult)
@@ -203,23 +487,29 @@ export const WidCaptchaProvider: React.FC<{
           return verificationResult
         } else {
           // Handle API error or verification failure
-          const errorMessage = result.error || result.message || `Verification failed with status ${response.status}`;
-          console.error("API Verification Error:", errorMessage, result.details);
-          throw new Error(errorMessage)
+          console.error("API Verification Error:", result.error, { code: result.code, attemptedMethods: result.attempted_methods });
+          throw new WidCaptchaError(result.error, result.code, result.attempted_methods)
         }
       } catch (err) {
-        const apiError = err instanceof Error ? err : new Error(String(err))
+        const apiError = err instanceof WidCaptchaError
+          ? err
+          : new WidCaptchaError(err instanceof Error ? err.message : String(err), VerificationErrorCode.InternalError)
         setError(apiError)
         if (onError) {
           onError(apiError)
         }
-        setVerificationMethod("none")
-        setIsVerified(false)
+        // A failed step-up keeps the earlier verification (its session is still valid on the server)
+        if (assuranceLevelRef.current === "none") {
+          setVerificationMethod("none")
+          setIsVerified(false)
+        }
 
         const failureResult: VerificationResult = {
           success: false,
           method: "none", // Or potentially the attempted method if known?
-          data: apiError.message,
+          error: apiError.message,
+          code: apiError.code,
+          attemptedMethods: apiError.attemptedMethods,
         }
         console.error("Verification failed with error:", apiError);
         if (onVerificationComplete) {
@@ -229,14 +519,20 @@ export const WidCaptchaProvider: React.FC<{
       } finally {
         setIsVerifying(false)
       }
-    }, [onVerificationComplete, onError]) // Dependencies: CAPTCHA_PROVIDER is constant within component lifecycle
+    }, [onVerificationComplete, onError, getTraceHeaders, captchaProvider])
 
     const reset = useCallback(() => {
       setIsVerified(false)
       setIsVerifying(false)
       setVerificationMethod("none")
+      assuranceLevelRef.current = "none"
+      setAssuranceLevel("none")
+      setSessionExpiresAt(null)
       setError(null)
-      // Note: Resetting the actual CAPTCHA widget (grecaptcha.reset or hcaptcha.reset)
+      idempotencyKeysRef.current.clear()
+      // Completed steps are still remembered by the server (progress cookie) until they expire
+      setRequirements(null)
+      // Note: Resetting the actual CAPTCHA widget (grecaptcha.reset, hcaptcha.reset or turnstile.reset)
       // should happen in the component that renders it (WidCaptcha.tsx)
     }, [])
 
@@ -244,15 +540,29 @@ export const WidCaptchaProvider: React.FC<{
       isVerified,
       isVerifying,
       verificationMethod,
+      assuranceLevel,
+      sessionExpiresAt,
       error,
       verifyProof: callVerificationApi,
       reset,
-      isCaptchaScriptLoaded, // Use renamed state
+      requirements,
+      isCaptchaScriptLoaded: captchaScriptStatus[captchaProvider] === "loaded", // Default provider's script
+      // Until health has been fetched, follow the configured primary verifier
+      preferredVerifier: preferredVerifier ?? (isConfigLoaded ? (config.primaryVerifier === "captcha" ? "captcha" : "world_id") : null),
+      unavailableMethods,
       appId: appId ?? null,
       actionId: actionId ?? null,
       recaptchaSiteKey: effectiveRecaptchaSiteKey ?? null,
       hcaptchaSiteKey: effectiveHcaptchaSiteKey ?? null,
-      captchaProvider: CAPTCHA_PROVIDER,
+      turnstileSiteKey: effectiveTurnstileSiteKey ?? null,
+      recaptchaVersion,
+      recaptchaAction,
+      captchaProvider,
+      captchaProviders,
+      isConfigLoaded,
+      captchaScriptStatus,
+      loadCaptchaScript,
+      refreshSession,
     };
 
     return (
@@ -1,12 +1,15 @@
 "use client"
 
-import React, { useEffect, useState, useRef, useCallback } from "react"
-import { useWidCaptcha } from "./wid-captcha-context"
+import React, { useEffect, useState, useRef, useCallback, useMemo } from "react"
+import { useWidCaptcha, RateLimitError } from "./wid-captcha-context"
+import { VerificationErrorCode } from "@/lib/verification-errors"
+import { meetsAssuranceLevel } from "@/lib/assurance"
+import type { AssuranceLevel } from "@/lib/assurance"
 import { Loader2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { VerificationLevel, ISuccessResult, IDKitWidget, useIDKit } from "@worldcoin/idkit"
-import type { VerificationResult } from "./types" // Import type only
+import type { CaptchaProvider, VerificationResult } from "./types" // Import type only
 import WorldLogo from "@/styles/world-logo.svg" // Import the new World ID logo
 
 // Define IDKit global window interface
@@ -16,16 +19,41 @@ declare global {
       init: (config: any) => void;
       open: () => void;
     };
-    // Note: grecaptcha and hcaptcha types are now declared in wid-captcha-context.tsx
+    // Note: grecaptcha, hcaptcha and turnstile types are now declared in wid-captcha-context.tsx
   }
 }
 
+// User-facing text for failures the user can act on; other codes show the server's message
+const ERROR_MESSAGES: Partial<Record<VerificationErrorCode, string>> = {
+  [VerificationErrorCode.TokenExpired]: "The challenge expired. Please try again.",
+  [VerificationErrorCode.TokenReused]: "This challenge was already used. Please try again.",
+  [VerificationErrorCode.TokenInvalid]: "The challenge response was invalid. Please try again.",
+  [VerificationErrorCode.ScoreTooLow]: "We couldn't confirm you're human. Please try World ID instead.",
+  [VerificationErrorCode.Replay]: "You have already verified for this action.",
+  [VerificationErrorCode.Misconfigured]: "Verification is not set up correctly on this site. Please contact the site owner.",
+  [VerificationErrorCode.UpstreamUnavailable]: "The verification service is temporarily unavailable. Please try again shortly.",
+  [VerificationErrorCode.NetworkError]: "Could not reach the server. Check your connection and try again.",
+  [VerificationErrorCode.ScriptLoadFailed]: "The verification challenge could not be loaded. Disable content blockers or try again.",
+}
+
+// Widget errors (error-callback) in a row before falling over to the next CAPTCHA provider
+const WIDGET_ERRORS_BEFORE_FAILOVER = 2
+
 // Props with recaptcha included for future use
 interface WidCaptchaProps {
   appId?: `app_${string}`
   actionId?: string
   recaptchaSiteKey?: string
   hcaptchaSiteKey?: string
+  turnstileSiteKey?: string
+  /** CAPTCHA provider of this widget, overriding the one of WidCaptchaProvider (e.g. hCaptcha on EU pages) */
+  captchaProvider?: CaptchaProvider
+  /** Providers to fall over to, in order, if a script is blocked or the widget keeps failing. Defaults to the provider's list. */
+  captchaProviders?: CaptchaProvider[]
+  /** Minimum assurance level (e.g. "world_id_orb" for sensitive operations). Only options able to reach it are shown, and a weaker verification is stepped up */
+  requireLevel?: AssuranceLevel
+  /** Action checked against the server's verification policy (e.g. "delete-account"); uses the default rule when omitted */
+  action?: string
   signal?: string
   signalDescription?: string
   verificationLevel?: VerificationLevel
@@ -45,6 +73,11 @@ export const WidCaptcha: React.FC<WidCaptchaProps> = ({
   actionId: actionIdProp,
   recaptchaSiteKey: recaptchaSiteKeyProp,
   hcaptchaSiteKey: hcaptchaSiteKeyProp,
+  turnstileSiteKey: turnstileSiteKeyProp,
+  captchaProvider: captchaProviderProp,
+  captchaProviders: captchaProvidersProp,
+  requireLevel,
+  action,
   signal,
   signalDescription = "Verify You're a Human",
   verificationLevel = VerificationLevel.Orb,
@@ -70,15 +103,27 @@ export const WidCaptcha: React.FC<WidCaptchaProps> = ({
   const {
     isVerified,
     isVerifying: contextIsVerifying,
+    verificationMethod,
+    assuranceLevel,
+    sessionExpiresAt,
     error: contextError,
     verifyProof,
     reset: resetContextState,
-    isCaptchaScriptLoaded,
+    isConfigLoaded,
+    captchaScriptStatus,
+    loadCaptchaScript,
+    refreshSession,
     appId: contextAppId,
     actionId: contextActionId,
     recaptchaSiteKey: contextRecaptchaSiteKey,
     hcaptchaSiteKey: contextHcaptchaSiteKey,
-    captchaProvider,
+    turnstileSiteKey: contextTurnstileSiteKey,
+    recaptchaVersion,
+    recaptchaAction,
+    captchaProviders: contextCaptchaProviders,
+    preferredVerifier,
+    unavailableMethods,
+    requirements,
   } = useWidCaptcha()
 
   // Determine effective IDs and Keys (prop overrides context)
@@ -86,24 +131,148 @@ export const WidCaptcha: React.FC<WidCaptchaProps> = ({
   const actionId = actionIdProp || contextActionId;
   const recaptchaSiteKey = recaptchaSiteKeyProp || contextRecaptchaSiteKey;
   const hcaptchaSiteKey = hcaptchaSiteKeyProp || contextHcaptchaSiteKey;
+  const turnstileSiteKey = turnstileSiteKeyProp || contextTurnstileSiteKey;
+  // Providers in failover order (an explicit `captchaProvider` disables failover)
+  const providerListKey = (captchaProvidersProp ?? (captchaProviderProp ? [captchaProviderProp] : contextCaptchaProviders)).join(",");
+  const providerList = useMemo(() => providerListKey.split(",") as CaptchaProvider[], [providerListKey]);
+  const [providerIndex, setProviderIndex] = useState(0);
+  const captchaProvider = providerList[Math.min(providerIndex, providerList.length - 1)];
+  const hasNextProvider = providerIndex < providerList.length - 1;
+  const captchaScriptState = captchaScriptStatus[captchaProvider];
+  const isCaptchaScriptLoaded = captchaScriptState === 'loaded';
+  // Every provider's script failed to load; only World ID is left
+  const isCaptchaUnavailable = captchaScriptState === 'failed' && !hasNextProvider;
+
+  // Load this widget's CAPTCHA script on demand (a no-op if it is already loaded or loading)
+  useEffect(() => {
+    if (isConfigLoaded) {
+      loadCaptchaScript(captchaProvider);
+    }
+  }, [isConfigLoaded, captchaProvider, loadCaptchaScript]);
+  // reCAPTCHA v3 has no visible widget; a token is requested via grecaptcha.execute instead
+  const isInvisibleRecaptcha = captchaProvider === 'recaptcha' && recaptchaVersion === 'v3';
+  // Show the CAPTCHA first while the server prefers it (e.g. World ID is degraded)
+  const promoteCaptcha = preferredVerifier === 'captcha';
+  // After a step of a multi-step policy, only the steps still required are offered
+  const remainingSteps = requirements && requirements.remaining.length > 0 ? requirements.remaining : null;
+  const isWorldIdRequired = !remainingSteps || remainingSteps.includes('world_id');
+  const isCaptchaRequired = !remainingSteps || remainingSteps.some((step) => step === 'captcha' || step === captchaProvider);
+  // A step that names another provider (e.g. "hcaptcha") switches the widget to it, if it is enabled here
+  const requiredProviderIndex = remainingSteps && !isCaptchaRequired
+    ? providerList.findIndex((provider) => remainingSteps.includes(provider))
+    : -1;
+  // Verified, and strong enough for this widget; a weaker verification is offered a step-up
+  const isLevelMet = !requireLevel || meetsAssuranceLevel(assuranceLevel, requireLevel);
+  const isComplete = isVerified && isLevelMet;
+  const isStepUp = isVerified && !isLevelMet;
+  // World ID reaches every level (Orb is requested when needed); a CAPTCHA reaches at most 'captcha'
+  const worldIdVerificationLevel = requireLevel === 'world_id_orb' ? VerificationLevel.Orb : verificationLevel;
+  const showWorldId = !!(appId && actionId) && isWorldIdRequired;
+  const captchaReachesLevel = !requireLevel || meetsAssuranceLevel('captcha', requireLevel);
+  const showCaptcha = !isCaptchaUnavailable && isCaptchaRequired && captchaReachesLevel;
+  // Remaining steps this widget cannot offer (e.g. a provider that is not enabled); shown as an error
+  const unsupportedStepsError = remainingSteps && !isComplete && !showWorldId && !showCaptcha && requiredProviderIndex === -1
+    ? `This verification requires ${remainingSteps.join(requirements?.mode === "all_of" ? " and " : " or ")}, which is not available here.`
+    : null;
 
   // Local state for widget IDs and interaction tracking
   const [captchaWidgetId, setCaptchaWidgetId] = useState<string | number | null>(null)
   const captchaContainerRef = useRef<HTMLDivElement>(null)
   const [localError, setLocalError] = useState<string | null>(null); // For widget-specific errors
+  // Seconds left before a rate-limited client may try again
+  const [retryCountdown, setRetryCountdown] = useState<number | null>(null);
+  // Consecutive widget errors of the current provider
+  const widgetErrorCountRef = useRef(0);
+  // Result of this widget's last successful verification, reported by the completion effect
+  const lastResultRef = useRef<VerificationResult | null>(null);
+  // Set once the current verification has been reported, cleared when it is reset
+  const completionReportedRef = useRef(false);
+
+  // Switch to the next provider, discarding the current widget. Returns false if there is none left.
+  const failOver = useCallback((reason: string) => {
+    if (!hasNextProvider) {
+      return false;
+    }
+    console.warn(`${captchaProvider} ${reason}, falling over to ${providerList[providerIndex + 1]}.`);
+    if (captchaContainerRef.current) {
+      captchaContainerRef.current.innerHTML = '';
+    }
+    widgetErrorCountRef.current = 0;
+    setCaptchaWidgetId(null);
+    setLocalError(null);
+    setProviderIndex(providerIndex + 1);
+    return true;
+  }, [hasNextProvider, captchaProvider, providerList, providerIndex]);
 
-  // Monitor isVerified changes from context
+  // Fall over as soon as the current provider's script fails to load (e.g. blocked by a firewall)
   useEffect(() => {
-    // If verification becomes successful and we have a completion callback
-    if (isVerified && onVerificationComplete && !contextIsVerifying) {
-      const successResult: VerificationResult = {
-        success: true,
-        method: captchaProvider,
-        data: "Verification successful"
-      };
-      onVerificationComplete(successResult);
+    if (captchaScriptState === 'failed' && !failOver('script failed to load')) {
+      setLocalError(ERROR_MESSAGES[VerificationErrorCode.ScriptLoadFailed]!);
     }
-  }, [isVerified, contextIsVerifying, onVerificationComplete, captchaProvider]);
+  }, [captchaScriptState, failOver]);
+
+  // Switch to the provider a policy step requires
+  useEffect(() => {
+    if (requiredProviderIndex === -1) {
+      return;
+    }
+    if (captchaContainerRef.current) {
+      captchaContainerRef.current.innerHTML = '';
+    }
+    widgetErrorCountRef.current = 0;
+    setCaptchaWidgetId(null);
+    setProviderIndex(requiredProviderIndex);
+  }, [requiredProviderIndex]);
+
+  // Start a countdown when the server rate limits us
+  useEffect(() => {
+    if (contextError instanceof RateLimitError) {
+      setRetryCountdown(contextError.retryAfterSeconds);
+    } else {
+      setRetryCountdown(null);
+    }
+  }, [contextError]);
+
+  // Tick the countdown once per second until it reaches zero
+  useEffect(() => {
+    if (retryCountdown === null || retryCountdown <= 0) {
+      return;
+    }
+    const timer = setTimeout(() => setRetryCountdown(retryCountdown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [retryCountdown]);
+
+  const isRateLimited = retryCountdown !== null && retryCountdown > 0;
+
+  // Report completion once, whether this widget, another widget or a restored session verified the user
+  useEffect(() => {
+    if (!isComplete) {
+      completionReportedRef.current = false;
+      return;
+    }
+    if (contextIsVerifying || completionReportedRef.current || !onVerificationComplete) return;
+    completionReportedRef.current = true;
+    const lastResult = lastResultRef.current;
+    lastResultRef.current = null;
+    onVerificationComplete(lastResult ?? {
+      success: true,
+      method: verificationMethod === "none" ? captchaProvider : verificationMethod,
+      message: "Verification successful",
+      attemptedMethods: [],
+      assuranceLevel,
+      sessionExpiresAt: sessionExpiresAt ?? undefined,
+    });
+  }, [isComplete, contextIsVerifying, onVerificationComplete, verificationMethod, captchaProvider, assuranceLevel, sessionExpiresAt]);
+
+  // Resets this widget's CAPTCHA state after an expired or failed challenge. The verification itself
+  // is only dropped if the server session is gone, not just because the widget's token expired.
+  const resetCaptchaState = useCallback(() => {
+    setCaptchaClicked(false);
+    lastResultRef.current = null;
+    if (isVerified) {
+      refreshSession();
+    }
+  }, [isVerified, refreshSession]);
 
   // Handle World ID verification success (after handleVerify completes)
   const handleWorldIDSuccess = (result: ISuccessResult) => {
@@ -124,11 +293,15 @@ export const WidCaptcha: React.FC<WidCaptchaProps> = ({
       if (onVerificationStart) {
         onVerificationStart();
       }
-      const verificationResult = await verifyProof({ idkit_response: result })
-      if (!verificationResult.success) {
-        setLocalError(verificationResult.data || "World ID cloud verification failed.");
-      } else if (onVerificationComplete) {
-        onVerificationComplete(verificationResult);
+      const verificationResult = await verifyProof({ idkit_response: result, action })
+      if (verificationResult.success) {
+        // Reported by the completion effect once the required level is met
+        lastResultRef.current = verificationResult;
+      } else if (verificationResult.code === VerificationErrorCode.RequirementsUnmet) {
+        // A passed step of a multi-step policy re-renders with the remaining steps
+        onVerificationComplete?.(verificationResult);
+      } else {
+        setLocalError(verificationResult.error || "World ID cloud verification failed.");
       }
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -136,47 +309,69 @@ export const WidCaptcha: React.FC<WidCaptchaProps> = ({
     }
   }
 
-  // Success callback for both reCAPTCHA and hCaptcha
+  // Success callback for reCAPTCHA, hCaptcha and Turnstile
   const handleCaptchaSuccess = useCallback((token: string | null) => {
     setCaptchaClicked(true);
     setLocalError(null);
     if (token) {
+      widgetErrorCountRef.current = 0;
       if (onVerificationStart) {
         onVerificationStart();
       }
-      verifyProof({ captcha_token: token }).then(result => {
-        if (!result.success) {
-          setLocalError(result.data || `${captchaProvider} verification failed.`);
-        } else if (onVerificationComplete) {
-          onVerificationComplete(result);
+      verifyProof({ captcha_token: token, captcha_provider: captchaProvider, action }).then(result => {
+        if (result.success) {
+          lastResultRef.current = result;
+        } else if (result.code === VerificationErrorCode.RequirementsUnmet) {
+          onVerificationComplete?.(result);
+        } else {
+          setLocalError(result.error || `${captchaProvider} verification failed.`);
         }
       })
     } else {
       console.warn(`${captchaProvider} success callback received null token.`)
       setLocalError(`${captchaProvider} verification failed: No token received.`);
-      resetContextState();
+      resetCaptchaState();
     }
-  }, [captchaProvider, onVerificationStart, verifyProof, resetContextState, onVerificationComplete]);
+  }, [captchaProvider, action, onVerificationStart, verifyProof, resetCaptchaState, onVerificationComplete]);
 
-  // Expiry callback for both
+  // Expiry callback for all CAPTCHA providers
   const handleCaptchaExpired = useCallback(() => {
     console.warn(`${captchaProvider} Token Expired.`);
     setLocalError(`${captchaProvider} challenge expired. Please try again.`);
-    resetContextState();
-  }, [captchaProvider, resetContextState]);
+    resetCaptchaState();
+  }, [captchaProvider, resetCaptchaState]);
 
-  // Error callback for both
+  // Error callback for all CAPTCHA providers
   const handleCaptchaError = useCallback((error: any) => {
     console.error(`${captchaProvider} Error:`, error)
+    widgetErrorCountRef.current += 1;
+    if (widgetErrorCountRef.current >= WIDGET_ERRORS_BEFORE_FAILOVER && failOver('widget keeps failing')) {
+      resetCaptchaState();
+      return;
+    }
     const message = error instanceof Error ? error.message : JSON.stringify(error);
     setLocalError(`${captchaProvider} widget error: ${message}`);
-    resetContextState();
-  }, [captchaProvider, resetContextState]);
-
-  // Render reCAPTCHA v2 Widget
+    resetCaptchaState();
+  }, [captchaProvider, resetCaptchaState, failOver]);
+
+  // Request an invisible reCAPTCHA v3 token and verify it like any other CAPTCHA token
+  const handleRecaptchaV3Execute = useCallback(() => {
+    const grecaptcha = window.grecaptcha;
+    if (!grecaptcha?.ready || !grecaptcha.execute || !recaptchaSiteKey) {
+      handleCaptchaError(new Error("reCAPTCHA v3 is not ready."));
+      return;
+    }
+    grecaptcha.ready(() => {
+      grecaptcha.execute!(recaptchaSiteKey, { action: recaptchaAction })
+        .then(handleCaptchaSuccess)
+        .catch(handleCaptchaError);
+    });
+  }, [recaptchaSiteKey, recaptchaAction, handleCaptchaSuccess, handleCaptchaError]);
+
+  // Render CAPTCHA Widget (reCAPTCHA v2, hCaptcha or Turnstile)
   useEffect(() => {
 
-    if (!isClient || !isCaptchaScriptLoaded || !captchaContainerRef.current) {
+    if (!isClient || !isCaptchaScriptLoaded || isInvisibleRecaptcha || !captchaContainerRef.current) {
       return;
     }
 
@@ -209,14 +404,23 @@ export const WidCaptcha: React.FC<WidCaptchaProps> = ({
             'expired-callback': handleCaptchaExpired,
             'error-callback': handleCaptchaError,
           });
+        } else if (captchaProvider === 'turnstile' && window.turnstile && turnstileSiteKey) {
+          widgetId = window.turnstile.render(captchaContainerRef.current!, {
+            sitekey: turnstileSiteKey,
+            callback: handleCaptchaSuccess,
+            'expired-callback': handleCaptchaExpired,
+            'error-callback': handleCaptchaError,
+          });
         } else {
           console.warn(`Captcha provider ${captchaProvider} selected, but dependencies not ready:`, {
             provider: captchaProvider,
             grecaptchaExists: !!window.grecaptcha,
             grecaptchaRenderExists: !!(window.grecaptcha && window.grecaptcha.render),
             hcaptchaExists: !!window.hcaptcha,
+            turnstileExists: !!window.turnstile,
             recaptchaSiteKey: !!recaptchaSiteKey,
-            hcaptchaSiteKey: !!hcaptchaSiteKey
+            hcaptchaSiteKey: !!hcaptchaSiteKey,
+            turnstileSiteKey: !!turnstileSiteKey
           });
           return false;
         }
@@ -249,9 +453,11 @@ export const WidCaptcha: React.FC<WidCaptchaProps> = ({
   }, [
     isClient,
     isCaptchaScriptLoaded,
+    isInvisibleRecaptcha,
     captchaProvider,
     recaptchaSiteKey,
     hcaptchaSiteKey,
+    turnstileSiteKey,
     handleCaptchaSuccess,
     handleCaptchaExpired,
     handleCaptchaError,
@@ -261,6 +467,7 @@ export const WidCaptcha: React.FC<WidCaptchaProps> = ({
   // Reset logic
   const handleResetClick = useCallback(() => {
     resetContextState();
+    lastResultRef.current = null;
     setCaptchaClicked(false);
     setLocalError(null);
 
@@ -270,6 +477,8 @@ export const WidCaptcha: React.FC<WidCaptchaProps> = ({
           window.grecaptcha.reset(captchaWidgetId as number);
         } else if (captchaProvider === 'hcaptcha' && window.hcaptcha?.reset) {
           window.hcaptcha.reset(captchaWidgetId as string);
+        } else if (captchaProvider === 'turnstile' && window.turnstile?.reset) {
+          window.turnstile.reset(captchaWidgetId as string);
         }
       } catch (resetError) {
         console.error(`Error resetting ${captchaProvider} widget (${captchaWidgetId}):`, resetError);
@@ -285,16 +494,18 @@ export const WidCaptcha: React.FC<WidCaptchaProps> = ({
   // Render custom children if provided
   if (children) {
     return React.cloneElement(children as React.ReactElement, {
-      isVerified,
+      isVerified: isComplete,
       isVerifying: contextIsVerifying,
+      assuranceLevel,
       error: contextError || localError,
       reset: handleResetClick,
+      requirements,
       renderWorldIDWidget: () => (
         <IDKitWidget
           app_id={appId! as `app_${string}`}
           action={actionId!}
           signal={signal}
-          verification_level={verificationLevel}
+          verification_level={worldIdVerificationLevel}
           handleVerify={handleWorldIDVerify}
           onSuccess={handleWorldIDSuccess}
           container_id={worldIdContainerId}
@@ -307,7 +518,11 @@ export const WidCaptcha: React.FC<WidCaptchaProps> = ({
           }
         </IDKitWidget>
       ),
-      renderCaptchaWidget: () => (
+      renderCaptchaWidget: () => isInvisibleRecaptcha ? (
+        <Button onClick={handleRecaptchaV3Execute} variant="outline" className="w-[70%] mx-auto justify-center my-4">
+          Verify with reCAPTCHA
+        </Button>
+      ) : (
         <div ref={captchaContainerRef} className="captcha-widget-container my-4"></div>
       ),
       captchaProvider
@@ -319,8 +534,8 @@ export const WidCaptcha: React.FC<WidCaptchaProps> = ({
     return null;
   }
 
-  // Determine overall error state
-  const currentError = contextError?.message || localError;
+  // Determine overall error state (user-facing text for known failure codes, raw message otherwise)
+  const currentError = (contextError && (ERROR_MESSAGES[contextError.code] ?? contextError.message)) || localError || unsupportedStepsError;
 
   return (
     <Card className="w-full max-w-md mx-auto shadow-lg border border-gray-200 dark:border-gray-700">
@@ -331,17 +546,17 @@ export const WidCaptcha: React.FC<WidCaptchaProps> = ({
 
       <CardContent className="px-6 py-4">
         {/* Loading State (Script Loading) */}
-        {!isClient || (!isCaptchaScriptLoaded && captchaProvider !== 'recaptcha' && captchaProvider !== 'hcaptcha') && (
+        {!isClient || (!isCaptchaScriptLoaded && captchaProvider !== 'recaptcha' && captchaProvider !== 'hcaptcha' && captchaProvider !== 'turnstile') && (
           <div className="text-center text-sm text-gray-500 h-[150px] flex flex-col justify-center items-center">
             <Loader2 className="mx-auto h-6 w-6 animate-spin text-blue-500" />
             <p className="mt-2">Loading verification...</p>
           </div>
         )}
 
-        {isClient && isCaptchaScriptLoaded && (
+        {isClient && (isCaptchaScriptLoaded || isCaptchaUnavailable || !captchaReachesLevel) && (
           <>
             {/* Verified State */}
-            {isVerified && !contextIsVerifying && !currentError && (
+            {isComplete && !contextIsVerifying && !currentError && (
               <div className="text-center text-green-600 dark:text-green-400 py-8">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 mx-auto mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
                   <path strokeLinecap="round" strokeLinejoin="round" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -360,27 +575,59 @@ export const WidCaptcha: React.FC<WidCaptchaProps> = ({
             )}
 
             {/* Error State */}
-            {!isVerified && !contextIsVerifying && currentError && (
+            {!isComplete && !contextIsVerifying && currentError && (
               <div className="text-center text-red-600 dark:text-red-400 py-4 px-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700/30 rounded-md">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 mx-auto mb-2 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
                   <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                <p className="font-medium text-sm mb-2">Verification Failed</p>
-                <p className="text-xs text-red-700 dark:text-red-300 break-words">{currentError}</p>
+                {retryCountdown !== null ? (
+                  <>
+                    <p className="font-medium text-sm mb-2">Too Many Attempts</p>
+                    <p className="text-xs text-red-700 dark:text-red-300 break-words">
+                      {isRateLimited ? `Please wait ${retryCountdown}s before trying again.` : "You can try again now."}
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <p className="font-medium text-sm mb-2">Verification Failed</p>
+                    <p className="text-xs text-red-700 dark:text-red-300 break-words">{currentError}</p>
+                  </>
+                )}
               </div>
             )}
 
             {/* Initial / Ready State (Not verifying, not verified, no error) */}
-            {!isVerified && !contextIsVerifying && !currentError && (
-              <div className="space-y-4">
+            {!isComplete && !contextIsVerifying && !currentError && (
+              <div className="flex flex-col gap-4">
+                {/* Step-Up Notice (verified, but not strongly enough for this widget) */}
+                {isStepUp && (
+                  <p className="order-first text-center text-xs text-gray-500 dark:text-gray-400">
+                    This action needs a stronger verification. Please continue with World ID.
+                  </p>
+                )}
+
+                {/* Step Indicator (multi-step policy) */}
+                {requirements?.mode === 'all_of' && remainingSteps && (
+                  <p className="order-first text-center text-xs text-gray-500 dark:text-gray-400">
+                    Step {requirements.satisfied.length + 1} of {requirements.satisfied.length + remainingSteps.length}: one more check is required.
+                  </p>
+                )}
+
+                {/* Degraded Provider Notice */}
+                {promoteCaptcha && showCaptcha && unavailableMethods.includes("world_id") && (
+                  <p className="order-first text-center text-xs text-amber-600 dark:text-amber-400">
+                    World ID is temporarily unavailable. Please use the check below.
+                  </p>
+                )}
+
                 {/* World ID Button */}
-                {appId && actionId && (
-                  <div className="text-center flex justify-center">
+                {showWorldId && (
+                  <div className={`text-center flex justify-center ${promoteCaptcha ? 'order-3' : ''}`}>
                     <IDKitWidget
                       app_id={appId as `app_${string}`}
                       action={actionId}
                       signal={signal}
-                      verification_level={verificationLevel}
+                      verification_level={worldIdVerificationLevel}
                       handleVerify={handleWorldIDVerify}
                       onSuccess={handleWorldIDSuccess}
                       container_id={worldIdContainerId}
@@ -396,17 +643,26 @@ export const WidCaptcha: React.FC<WidCaptchaProps> = ({
                 )}
 
                 {/* Divider */}
-                {appId && actionId && (captchaProvider === 'recaptcha' || captchaProvider === 'hcaptcha') && (
-                  <div className="relative flex items-center py-1">
+                {showWorldId && showCaptcha && (captchaProvider === 'recaptcha' || captchaProvider === 'hcaptcha' || captchaProvider === 'turnstile') && (
+                  <div className={`relative flex items-center py-1 ${promoteCaptcha ? 'order-2' : ''}`}>
                     <div className="flex-grow border-t border-gray-300 dark:border-gray-600"></div>
-                    <span className="flex-shrink mx-3 text-gray-400 dark:text-gray-500 text-xs font-medium">OR</span>
+                    <span className="flex-shrink mx-3 text-gray-400 dark:text-gray-500 text-xs font-medium">{requirements?.mode === 'all_of' ? 'AND' : 'OR'}</span>
                     <div className="flex-grow border-t border-gray-300 dark:border-gray-600"></div>
                   </div>
                 )}
 
+                {/* Invisible reCAPTCHA v3 Button */}
+                {isInvisibleRecaptcha && showCaptcha && (
+                  <div className={`text-center flex justify-center ${promoteCaptcha ? 'order-1' : ''}`}>
+                    <Button onClick={handleRecaptchaV3Execute} disabled={!isCaptchaScriptLoaded} variant="outline" className="w-[70%] mx-auto justify-center items-center border-gray-300 hover:bg-gray-50 dark:border-gray-600 dark:hover:bg-gray-700">
+                      Verify with reCAPTCHA
+                    </Button>
+                  </div>
+                )}
+
                 {/* CAPTCHA Widget Placeholder */}
-                {(captchaProvider === 'recaptcha' || captchaProvider === 'hcaptcha') && (
-                  <>
+                {!isInvisibleRecaptcha && showCaptcha && (captchaProvider === 'recaptcha' || captchaProvider === 'hcaptcha' || captchaProvider === 'turnstile') && (
+                  <div className={promoteCaptcha ? 'order-1' : undefined}>
                     {/* Loading Messages (Outside the captcha container) - Hide when widget ID exists */}
                     {!captchaWidgetId && captchaContainerRef.current?.childElementCount === 0 && (
                       <div className="text-center py-2 mb-2">
@@ -420,7 +676,7 @@ export const WidCaptcha: React.FC<WidCaptchaProps> = ({
 
                     {/* Empty container for captcha widget */}
                     <div ref={captchaContainerRef} className="captcha-widget-container min-h-[78px] flex justify-center items-center"></div>
-                  </>
+                  </div>
                 )}
               </div>
             )}
@@ -429,10 +685,10 @@ export const WidCaptcha: React.FC<WidCaptchaProps> = ({
       </CardContent>
 
       {/* Footer (only shown if verified or error occurred) */}
-      {(isVerified || currentError) && !contextIsVerifying && (
+      {(isComplete || currentError) && !contextIsVerifying && (
         <CardFooter className="pt-4 pb-5 px-6 border-t border-gray-200 dark:border-gray-700">
-          <Button onClick={handleResetClick} variant="secondary" size="sm" className="w-full text-xs">
-            {isVerified ? "Verified" : "Reset Verification"}
+          <Button onClick={handleResetClick} disabled={isRateLimited} variant="secondary" size="sm" className="w-full text-xs">
+            {isComplete ? "Verified" : isRateLimited ? `Try again in ${retryCountdown}s` : "Reset Verification"}
           </Button>
         </CardFooter>
       )}